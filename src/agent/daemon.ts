@@ -9,20 +9,56 @@
  * Key concepts:
  * - Session management (create, list, get history)
  * - Request routing through lanes
- * - Active run tracking for cancellation
+ * - Active run tracking for cancellation and shutdown
  * - Event emission for monitoring
- * - Multi-provider support (Anthropic, Bedrock)
+ * - Spend tracking (tokens and estimated cost) per session
+ * - Tool approvals, remembered per session when "always" is chosen
+ * - Tool policy from .mini-owl/policy.json, with decisions re-emitted for auditing
+ * - Per-run event streams consumable with `for await`
+ * - Multi-provider support (Anthropic, OpenAI, Bedrock, custom providers)
  */
 
 import { EventEmitter } from "node:events";
 import { runAgent } from "./runner.js";
 import { enqueueInSessionLane, getLaneStats } from "./lanes.js";
+import { AuthProfilePool, loadAuthProfiles } from "../auth/profiles.js";
+import { loadToolPolicy } from "./policy.js";
+import { AsyncQueue } from "../utils/async-queue.js";
+import { closeAllShellSessions } from "../tools/shell-session.js";
+import { addUsage } from "../providers/pricing.js";
 import {
   loadSession,
   resolveSessionFile,
   type SessionData,
 } from "../session/session-manager.js";
-import type { AgentRunParams, AgentRunResult, Tool, Provider, BedrockConfig } from "../types.js";
+import type {
+  AgentEvent,
+  AgentEventHandler,
+  ApprovalHandler,
+  AgentRunParams,
+  AgentRunResult,
+  Tool,
+  Provider,
+  BedrockConfig,
+  ExecConfig,
+  ModelProvider,
+  ModelRef,
+  RetryPolicy,
+  AuthProfilesConfig,
+  AuthProfileHealth,
+  ImageBlock,
+  JsonSchema,
+  ModelPricing,
+  PermissionMode,
+  RunBudget,
+  SpendSummary,
+  ThinkingConfig,
+  ToolPolicy,
+  WorkspaceRoot,
+} from "../types.js";
+
+// How long shutdown waits for cancelled runs to save their sessions
+const SHUTDOWN_GRACE_MS = 5000;
 
 export interface DaemonConfig {
   workspaceDir: string;
@@ -30,16 +66,71 @@ export interface DaemonConfig {
   provider?: Provider;
   apiKey?: string;
   bedrockConfig?: BedrockConfig;
+  /** Named API keys to rotate between (defaults to <workspace>/.mini-owl/auth.json) */
+  authProfiles?: AuthProfilesConfig;
+  /** Extra providers for this daemon; these override registry entries with the same name */
+  providers?: ModelProvider[];
+  /** Models to try, in order, when the primary model is throttled or unavailable */
+  fallbacks?: ModelRef[];
+  /** Backoff for throttled/overloaded model calls (defaults: 3 retries, 1s base, 30s max) */
+  retry?: Partial<RetryPolicy>;
+  /** Estimated context tokens before older history is summarized (default: 100000) */
+  contextTokenBudget?: number;
+  /** Max read-only tool calls (read, ls, grep) run at once (default: 4) */
+  toolConcurrency?: number;
+  /** Cache breakpoints on system prompt, tools and history for Anthropic/Bedrock (default: true) */
+  promptCaching?: boolean;
+  /** Default reasoning settings (Anthropic extended thinking / OpenAI reasoning effort) */
+  thinking?: ThinkingConfig;
+  /** Default limits for every run (tokens, cost, time, tool iterations) */
+  budget?: RunBudget;
+  /** Price overrides (USD per million tokens) by model ID, merged over the built-in table */
+  pricing?: Record<string, ModelPricing>;
+  /** Approval of tool calls that are not read-only (default: "default") */
+  permissionMode?: PermissionMode;
+  /** Asked before tool calls that need approval; without it they run */
+  onApprovalRequest?: ApprovalHandler;
+  /** Path- and command-scoped tool rules (defaults to <workspace>/.mini-owl/policy.json) */
+  policy?: ToolPolicy;
+  /** Directories besides the workspace that file tools may use (read-only unless granted "readwrite") */
+  roots?: WorkspaceRoot[];
+  /** How exec runs commands: "host" or "sandbox" backend, env allowlist, network, persistent shell (default: host) */
+  exec?: ExecConfig;
   tools?: Tool[];
 }
 
 export interface RunOptions {
   sessionId: string;
   prompt: string;
+  /** Images sent with the prompt (see loadImage) */
+  attachments?: ImageBlock[];
+  /** JSON Schema for the final answer; the parsed value is returned as result.output */
+  responseSchema?: JsonSchema;
   model?: string;
   provider?: Provider;
+  /** Overrides DaemonConfig.fallbacks for this run */
+  fallbacks?: ModelRef[];
+  /** Overrides DaemonConfig.retry for this run */
+  retry?: Partial<RetryPolicy>;
+  /** Overrides DaemonConfig.thinking for this run */
+  thinking?: ThinkingConfig;
+  /** Merged over DaemonConfig.budget for this run */
+  budget?: RunBudget;
+  /** Overrides DaemonConfig.permissionMode for this run */
+  permissionMode?: PermissionMode;
+  /** Overrides DaemonConfig.onApprovalRequest for this run */
+  onApprovalRequest?: ApprovalHandler;
+  /** Overrides the daemon's tool policy for this run */
+  policy?: ToolPolicy;
+  /** Cancels this run when aborted (like cancelRun, but scoped to this call) */
+  abortSignal?: AbortSignal;
+  /** Receives every run event; the callbacks below are adapters over the same events */
+  onEvent?: AgentEventHandler;
   onPartialReply?: (text: string) => void;
+  onThinking?: (text: string) => void;
   onToolExecution?: (toolName: string, args: Record<string, unknown>) => void;
+  /** Output from a tool while it runs, e.g. exec's stdout and stderr lines */
+  onToolProgress?: (toolName: string, chunk: string) => void;
   onToolResult?: (toolName: string, result: string) => void;
 }
 
@@ -48,6 +139,8 @@ interface ActiveRun {
   startedAt: Date;
   abortController: AbortController;
   provider: Provider;
+  // Settles once the run has saved its session and stopped its processes
+  ended: Promise<void>;
 }
 
 /**
@@ -71,11 +164,25 @@ interface ActiveRun {
  *   },
  * });
  * ```
+ *
+ * Usage with a custom provider:
+ * ```typescript
+ * const daemon = new AgentDaemon({
+ *   workspaceDir: "/path/to/workspace",
+ *   provider: "my-gateway",
+ *   providers: [myGatewayProvider],
+ * });
+ * ```
  */
 export class AgentDaemon extends EventEmitter {
   private config: DaemonConfig;
   private activeRuns: Map<string, ActiveRun> = new Map();
   private sessionsDir: string;
+  private authPool?: AuthProfilePool;
+  private authPoolLoading?: Promise<AuthProfilePool | undefined>;
+  private policyLoading?: Promise<ToolPolicy | null>;
+  private spendBySession: Map<string, SpendSummary> = new Map();
+  private approvalsBySession: Map<string, Set<string>> = new Map();
 
   constructor(config: DaemonConfig) {
     super();
@@ -90,14 +197,74 @@ export class AgentDaemon extends EventEmitter {
     return this.config.provider || "anthropic";
   }
 
+  /**
+   * Get the auth profile pool, loading .mini-owl/auth.json on first use
+   */
+  private async getAuthProfiles(): Promise<AuthProfilePool | undefined> {
+    if (this.authPool) {
+      return this.authPool;
+    }
+
+    this.authPoolLoading ??= (async () => {
+      const config =
+        this.config.authProfiles ?? (await loadAuthProfiles(this.config.workspaceDir));
+      if (config && config.profiles.length > 0) {
+        this.authPool = new AuthProfilePool(config);
+      }
+      return this.authPool;
+    })().catch((error) => {
+      // Let the next run try again, e.g. once auth.json is fixed
+      this.authPoolLoading = undefined;
+      throw error;
+    });
+
+    return this.authPoolLoading;
+  }
+
+  /**
+   * Get the tool policy, loading .mini-owl/policy.json on first use
+   */
+  private async getToolPolicy(): Promise<ToolPolicy | undefined> {
+    if (this.config.policy) {
+      return this.config.policy;
+    }
+
+    this.policyLoading ??= loadToolPolicy(this.config.workspaceDir).catch((error) => {
+      // Let the next run try again, e.g. once policy.json is fixed
+      this.policyLoading = undefined;
+      throw error;
+    });
+    return (await this.policyLoading) ?? undefined;
+  }
+
   /**
    * Run the agent with a prompt in a session
    *
    * Requests are serialized per-session using lanes.
    */
   async run(options: RunOptions): Promise<AgentRunResult> {
-    const { sessionId, prompt, model, provider, onPartialReply, onToolExecution, onToolResult } =
-      options;
+    const {
+      sessionId,
+      prompt,
+      attachments,
+      responseSchema,
+      model,
+      provider,
+      fallbacks,
+      retry,
+      thinking,
+      budget,
+      permissionMode,
+      onApprovalRequest,
+      policy,
+      abortSignal,
+      onEvent,
+      onPartialReply,
+      onThinking,
+      onToolExecution,
+      onToolProgress,
+      onToolResult,
+    } = options;
 
     // Use run-specific provider/model or fall back to config defaults
     const effectiveProvider = provider || this.config.provider || "anthropic";
@@ -107,48 +274,186 @@ export class AgentDaemon extends EventEmitter {
     return enqueueInSessionLane(sessionId, async () => {
       // Create abort controller for this run
       const abortController = new AbortController();
+      const onAbort = () => abortController.abort();
+      if (abortSignal?.aborted) {
+        abortController.abort();
+      } else {
+        abortSignal?.addEventListener("abort", onAbort, { once: true });
+      }
 
       // Track active run
       const runId = `${sessionId}:${Date.now()}`;
+      let markEnded!: () => void;
       this.activeRuns.set(runId, {
         sessionId,
         startedAt: new Date(),
         abortController,
         provider: effectiveProvider,
+        ended: new Promise((resolve) => {
+          markEnded = resolve;
+        }),
       });
 
       this.emit("run:start", { runId, sessionId, provider: effectiveProvider });
 
       try {
+        const authProfiles = await this.getAuthProfiles();
+        const toolPolicy = policy ?? (await this.getToolPolicy());
+
         const params: AgentRunParams = {
           sessionId,
           prompt,
+          attachments,
+          responseSchema,
           workspaceDir: this.config.workspaceDir,
           model: effectiveModel,
           provider: effectiveProvider,
           apiKey: this.config.apiKey,
           bedrockConfig: this.config.bedrockConfig,
+          authProfiles,
+          providers: this.config.providers,
+          fallbacks: fallbacks ?? this.config.fallbacks,
+          retry: { ...this.config.retry, ...retry },
+          contextTokenBudget: this.config.contextTokenBudget,
+          toolConcurrency: this.config.toolConcurrency,
+          promptCaching: this.config.promptCaching,
+          thinking: thinking ?? this.config.thinking,
+          budget: { ...this.config.budget, ...budget },
+          pricing: this.config.pricing,
           tools: this.config.tools,
+          permissionMode: permissionMode ?? this.config.permissionMode,
+          onApprovalRequest: onApprovalRequest ?? this.config.onApprovalRequest,
+          sessionApprovals: this.getSessionApprovals(sessionId),
+          policy: toolPolicy,
+          roots: this.config.roots,
+          exec: this.config.exec,
+          onEvent: (event) => {
+            if (event.type === "fallback" || event.type === "retry") {
+              const { type, ...info } = event;
+              this.emit(`run:${type}`, { runId, sessionId, ...info });
+            } else if (event.type === "policy_decision") {
+              const { type, ...decision } = event;
+              this.emit("run:policy", { runId, sessionId, ...decision });
+            } else if (event.type === "tool_progress") {
+              const { type, ...progress } = event;
+              this.emit("run:progress", { runId, sessionId, ...progress });
+            }
+            onEvent?.(event);
+          },
           onPartialReply,
+          onThinking,
           onToolExecution,
+          onToolProgress,
           onToolResult,
           abortSignal: abortController.signal,
         };
 
         const result = await runAgent(params);
+        this.recordSpend(sessionId, result);
 
-        this.emit("run:end", { runId, sessionId, result });
+        this.emit("run:end", {
+          runId,
+          sessionId,
+          provider: result.provider,
+          model: result.model,
+          result,
+        });
 
         return result;
       } catch (error) {
         this.emit("run:error", { runId, sessionId, error });
         throw error;
       } finally {
+        abortSignal?.removeEventListener("abort", onAbort);
         this.activeRuns.delete(runId);
+        markEnded();
       }
     });
   }
 
+  /**
+   * Run the agent and iterate over its events as they happen
+   *
+   * The stream ends after a "result" event, or an "error" event if the
+   * run throws. Leaving the loop early cancels the run.
+   *
+   * ```typescript
+   * for await (const event of daemon.stream({ sessionId, prompt })) {
+   *   if (event.type === "message_delta") process.stdout.write(event.text);
+   * }
+   * ```
+   */
+  stream(options: RunOptions): AsyncIterable<AgentEvent> {
+    const queue = new AsyncQueue<AgentEvent>();
+    const abortController = new AbortController();
+    const abortSignal = options.abortSignal
+      ? AbortSignal.any([options.abortSignal, abortController.signal])
+      : abortController.signal;
+    let failed = false;
+    let finished = false;
+
+    this.run({
+      ...options,
+      abortSignal,
+      onEvent: (event) => {
+        failed ||= event.type === "error";
+        options.onEvent?.(event);
+        queue.push(event);
+      },
+    })
+      .catch((error) => {
+        // Failures before the runner started have no error event yet
+        if (!failed) {
+          queue.push({ type: "error", error: error as Error });
+        }
+      })
+      .finally(() => {
+        finished = true;
+        queue.close();
+      });
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        try {
+          yield* queue;
+        } finally {
+          if (!finished) {
+            abortController.abort();
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * Get the tools approved for the rest of a session
+   */
+  private getSessionApprovals(sessionId: string): Set<string> {
+    let approvals = this.approvalsBySession.get(sessionId);
+    if (!approvals) {
+      approvals = new Set();
+      this.approvalsBySession.set(sessionId, approvals);
+    }
+    return approvals;
+  }
+
+  /**
+   * Add a run's usage and cost to the session's spend
+   */
+  private recordSpend(sessionId: string, result: AgentRunResult): void {
+    let spend = this.spendBySession.get(sessionId);
+    if (!spend) {
+      spend = { runs: 0, usage: { inputTokens: 0, outputTokens: 0 }, costUsd: 0 };
+      this.spendBySession.set(sessionId, spend);
+    }
+
+    spend.runs++;
+    if (result.usage) {
+      addUsage(spend.usage, result.usage);
+    }
+    spend.costUsd += result.costUsd ?? 0;
+  }
+
   /**
    * Get session history
    */
@@ -187,6 +492,32 @@ export class AgentDaemon extends EventEmitter {
     return false;
   }
 
+  /**
+   * Cancel every active run and stop persistent shells, e.g. before the
+   * daemon's process exits
+   *
+   * Waits (up to a few seconds) for the runs to end, so they have saved
+   * their sessions and stopped their background processes.
+   */
+  async shutdown(): Promise<void> {
+    const ended: Promise<void>[] = [];
+    for (const [runId, run] of this.activeRuns) {
+      run.abortController.abort();
+      this.emit("run:cancelled", { runId, sessionId: run.sessionId });
+      ended.push(run.ended);
+    }
+    closeAllShellSessions();
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(ended),
+      new Promise((resolve) => {
+        timer = setTimeout(resolve, SHUTDOWN_GRACE_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
   /**
    * Get active runs
    */
@@ -212,11 +543,30 @@ export class AgentDaemon extends EventEmitter {
     activeLanes: number;
     totalQueuedTasks: number;
     provider: Provider;
+    authProfiles: AuthProfileHealth[];
+    spend: SpendSummary & { bySession: Record<string, SpendSummary> };
   } {
     const laneStats = getLaneStats();
+
+    // Spend since the daemon started, across all sessions
+    const spend: SpendSummary & { bySession: Record<string, SpendSummary> } = {
+      runs: 0,
+      usage: { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 },
+      costUsd: 0,
+      bySession: {},
+    };
+    for (const [sessionId, session] of this.spendBySession) {
+      spend.runs += session.runs;
+      addUsage(spend.usage, session.usage);
+      spend.costUsd += session.costUsd;
+      spend.bySession[sessionId] = { ...session, usage: { ...session.usage } };
+    }
+
     return {
       activeRuns: this.activeRuns.size,
       provider: this.getProvider(),
+      authProfiles: this.authPool?.getHealth() ?? [],
+      spend,
       ...laneStats,
     };
   }
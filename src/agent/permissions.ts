@@ -0,0 +1,140 @@
+/**
+ * Permissions - Approval of tool calls that change files or run commands
+ *
+ * Inspired by OpenClaw's exec approvals
+ *
+ * Key concepts:
+ * - Read-only tools always run
+ * - The permission mode decides which other calls need approval
+ * - An approval handler (e.g. the CLI's y/n/always prompt) sees a preview
+ *   of each call and allows it, denies it, or allows the tool for the
+ *   rest of the session
+ * - Denials go back to the model as tool errors
+ */
+
+import type {
+  ApprovalDecision,
+  ApprovalHandler,
+  PermissionMode,
+  Tool,
+  ToolCall,
+  ToolContext,
+} from "../types.js";
+
+export interface PermissionSettings {
+  mode: PermissionMode;
+  onApprovalRequest?: ApprovalHandler;
+  // Tools approved for the rest of the session
+  sessionApprovals: Set<string>;
+}
+
+export type PermissionResult = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Decide whether a tool call may run, asking the approval handler if needed
+ *
+ * @param args - The call's validated arguments
+ */
+export async function checkPermission(
+  settings: PermissionSettings,
+  tool: Tool,
+  toolCall: ToolCall,
+  args: Record<string, unknown>,
+  sessionId: string,
+  ctx: ToolContext
+): Promise<PermissionResult> {
+  const { mode, onApprovalRequest, sessionApprovals } = settings;
+
+  if (tool.readOnly || mode === "bypass") {
+    return { allowed: true };
+  }
+  if (mode === "plan") {
+    return {
+      allowed: false,
+      reason: `${tool.name} is not available in plan mode, which only allows read-only tools. Describe the change instead of making it.`,
+    };
+  }
+  if ((mode === "acceptEdits" && tool.editsFiles) || sessionApprovals.has(tool.name)) {
+    return { allowed: true };
+  }
+  // Nobody to ask; the call runs as it would without permission checks
+  if (!onApprovalRequest) {
+    return { allowed: true };
+  }
+
+  let decision: ApprovalDecision;
+  try {
+    const preview = await buildPreview(tool, args, ctx);
+    decision = await waitForDecision(
+      onApprovalRequest({
+        sessionId,
+        toolCallId: toolCall.id,
+        toolName: tool.name,
+        args,
+        preview,
+        abortSignal: ctx.abortSignal,
+      }),
+      ctx.abortSignal
+    );
+  } catch (error) {
+    if (ctx.abortSignal?.aborted) {
+      return { allowed: false, reason: "the run was cancelled before the call was approved." };
+    }
+    return { allowed: false, reason: `approval failed: ${(error as Error).message}` };
+  }
+
+  switch (decision.behavior) {
+    case "allow":
+      return { allowed: true };
+    case "allow_session":
+      sessionApprovals.add(tool.name);
+      return { allowed: true };
+    case "deny":
+      return {
+        allowed: false,
+        reason: `the user denied this ${tool.name} call${decision.reason ? `: ${decision.reason}` : "."}`,
+      };
+  }
+}
+
+/**
+ * Describe a tool call for an approval prompt
+ */
+async function buildPreview(
+  tool: Tool,
+  args: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<string> {
+  if (tool.preview) {
+    try {
+      return await tool.preview(args, ctx);
+    } catch {
+      // Fall back to the raw arguments
+    }
+  }
+  return JSON.stringify(args, null, 2);
+}
+
+/**
+ * Wait for an approval decision, giving up if the run is cancelled
+ */
+function waitForDecision(
+  decision: ApprovalDecision | Promise<ApprovalDecision>,
+  abortSignal?: AbortSignal
+): Promise<ApprovalDecision> {
+  if (!abortSignal) {
+    return Promise.resolve(decision);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error("cancelled"));
+    if (abortSignal.aborted) {
+      onAbort();
+      return;
+    }
+    abortSignal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(decision)
+      .then(resolve, reject)
+      .finally(() => abortSignal.removeEventListener("abort", onAbort));
+  });
+}
@@ -0,0 +1,358 @@
+/**
+ * Tool Policy - Declarative path- and command-scoped rules for tool calls
+ *
+ * Inspired by OpenClaw's tool policy and exec allowlists
+ *
+ * Key concepts:
+ * - Rules are checked in order and the first match decides; calls no rule
+ *   matches get the policy's default (allow unless set)
+ * - Session sections (keyed by session ID glob) come before shared rules
+ * - Every decision names the rule that made it and can be appended to an
+ *   audit log
+ * - A denial is final: the call is never offered for approval
+ * - Path rules see through symlinks, and grep skips files a deny rule
+ *   covers even when it searches a whole directory
+ *
+ * Example .mini-owl/policy.json:
+ * {
+ *   "rules": [
+ *     { "tool": ["edit", "write"], "paths": ["src/**"], "action": "allow" },
+ *     { "tool": ["edit", "write"], "action": "deny", "reason": "Only src/ may be changed" },
+ *     { "tool": "exec", "commands": ["npm test", "git status*"], "action": "allow" },
+ *     { "tool": "exec", "action": "deny" },
+ *     { "name": "no-secrets", "tool": "*", "paths": [".env", "*.pem"], "action": "deny" }
+ *   ],
+ *   "sessions": { "ci-*": { "default": "deny", "rules": [] } },
+ *   "auditLog": ".mini-owl/policy-audit.jsonl"
+ * }
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  PolicyDecision,
+  PolicyTarget,
+  Tool,
+  ToolContext,
+  ToolPolicy,
+  ToolPolicyRule,
+  ToolPolicyRules,
+} from "../types.js";
+import { resolveToolPath } from "../tools/paths.js";
+import { globToRegExpSource, matchesGlob } from "../utils/glob.js";
+
+// Arguments a tool's target path is read from, in order
+const PATH_ARGUMENTS = ["file_path", "path"];
+
+// Redirections from one stream to another (2>&1, >&2, 3<&0, 2>&-)
+const STREAM_REDIRECTION = /\d*[<>]&(?:\d+|-)/g;
+
+// Longest argument string kept in an audit log entry
+const MAX_AUDIT_ARG_CHARS = 200;
+
+/**
+ * Load the tool policy from <workspace>/.mini-owl/policy.json
+ *
+ * @returns The parsed policy, or null if the file does not exist
+ */
+export async function loadToolPolicy(workspaceDir: string): Promise<ToolPolicy | null> {
+  const policyFile = path.join(workspaceDir, ".mini-owl", "policy.json");
+
+  try {
+    const content = await fs.readFile(policyFile, "utf-8");
+    const policy = JSON.parse(content) as ToolPolicy;
+
+    validateRules(policy, policyFile);
+    for (const [pattern, section] of Object.entries(policy.sessions ?? {})) {
+      validateRules(section, `${policyFile}: sessions[${pattern}]`);
+    }
+
+    return policy;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check that a rule list has the expected shape
+ */
+function validateRules(section: ToolPolicyRules, location: string): void {
+  if (section.rules !== undefined && !Array.isArray(section.rules)) {
+    throw new Error(`${location}: "rules" must be an array`);
+  }
+  if (section.default !== undefined && section.default !== "allow" && section.default !== "deny") {
+    throw new Error(`${location}: "default" must be "allow" or "deny"`);
+  }
+  section.rules?.forEach((rule, i) => {
+    if (rule.action !== "allow" && rule.action !== "deny") {
+      throw new Error(`${location}: rules[${i}].action must be "allow" or "deny"`);
+    }
+    if (rule.tool === undefined) {
+      throw new Error(`${location}: rules[${i}].tool is required`);
+    }
+  });
+}
+
+/**
+ * Decide whether a policy allows a tool call
+ *
+ * @param args - The call's validated arguments
+ * @param call.target - The call's path with symlinks resolved (see
+ *   resolvePolicyTarget); without it, path rules see the path as given
+ */
+export function evaluatePolicy(
+  policy: ToolPolicy,
+  call: {
+    sessionId: string;
+    tool: Tool;
+    args: Record<string, unknown>;
+    workspaceDir: string;
+    target?: PolicyTarget;
+  }
+): PolicyDecision {
+  const sections = getSections(policy, call.sessionId);
+  const match = findRule(sections, call);
+  if (match) {
+    const { label, index, rule } = match;
+    return {
+      action: rule.action,
+      rule: `${label}rules[${index}]${rule.name ? ` (${rule.name})` : ""}`,
+      reason:
+        rule.action === "deny"
+          ? (rule.reason ?? `${call.tool.name} is not allowed by the tool policy`)
+          : undefined,
+    };
+  }
+
+  const fallback = sections.find(({ section }) => section.default !== undefined);
+  const action = fallback?.section.default ?? "allow";
+  return {
+    action,
+    rule: `${fallback?.label ?? ""}default`,
+    reason: action === "deny" ? `${call.tool.name} is not allowed by the tool policy` : undefined,
+  };
+}
+
+/**
+ * Resolve the path a tool call targets, following symlinks, so a link
+ * can't be used to get around a rule written for the file it points to
+ *
+ * @returns undefined if the tool takes no path
+ */
+export async function resolvePolicyTarget(
+  tool: Tool,
+  args: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<PolicyTarget | undefined> {
+  const requested = getTargetPath(tool, args, ctx.workspaceDir);
+  if (requested === undefined) {
+    return undefined;
+  }
+
+  // A path the tool can't use is refused by the tool itself
+  const resolved = await resolveToolPath(ctx, requested, "read");
+  if ("error" in resolved) {
+    return { requested, resolved: requested };
+  }
+  const workspace = await fs.realpath(ctx.workspaceDir);
+  return { requested, resolved: toRelativePath(workspace, resolved.path) };
+}
+
+/**
+ * Build the check for files a directory-wide call (e.g. grep on ".")
+ * reaches: a file is denied if the first rule matching the call aimed at
+ * that file is a deny rule
+ *
+ * @returns A check that takes a canonical file path
+ */
+export async function createPathFilter(
+  policy: ToolPolicy,
+  call: { sessionId: string; tool: Tool; args: Record<string, unknown>; workspaceDir: string }
+): Promise<(filePath: string) => boolean> {
+  const sections = getSections(policy, call.sessionId);
+  const workspace = await fs.realpath(call.workspaceDir);
+
+  return (filePath) => {
+    const relative = toRelativePath(workspace, filePath);
+    const target = { requested: relative, resolved: relative };
+    return findRule(sections, { ...call, target })?.rule.action === "deny";
+  };
+}
+
+/**
+ * Get the rule lists that apply to a session, in the order they are checked
+ */
+function getSections(
+  policy: ToolPolicy,
+  sessionId: string
+): Array<{ label: string; section: ToolPolicyRules }> {
+  const sections: Array<{ label: string; section: ToolPolicyRules }> = [];
+  for (const [pattern, section] of Object.entries(policy.sessions ?? {})) {
+    if (new RegExp(`^${globToRegExpSource(pattern, true)}$`).test(sessionId)) {
+      sections.push({ label: `sessions[${pattern}].`, section });
+    }
+  }
+  sections.push({ label: "", section: policy });
+  return sections;
+}
+
+/**
+ * Find the first rule that applies to a tool call
+ */
+function findRule(
+  sections: Array<{ label: string; section: ToolPolicyRules }>,
+  call: { tool: Tool; args: Record<string, unknown>; workspaceDir: string; target?: PolicyTarget }
+): { label: string; index: number; rule: ToolPolicyRule } | undefined {
+  for (const { label, section } of sections) {
+    for (const [index, rule] of (section.rules ?? []).entries()) {
+      if (matchesRule(rule, call)) {
+        return { label, index, rule };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a rule applies to a tool call
+ *
+ * A deny rule's paths match either the path as given or the file it
+ * resolves to; an allow rule's paths must match the resolved file.
+ */
+function matchesRule(
+  rule: ToolPolicyRule,
+  call: { tool: Tool; args: Record<string, unknown>; workspaceDir: string; target?: PolicyTarget }
+): boolean {
+  const toolPatterns = Array.isArray(rule.tool) ? rule.tool : [rule.tool];
+  if (!toolPatterns.some((pattern) => matchesName(call.tool.name, pattern))) {
+    return false;
+  }
+
+  const patterns = rule.paths;
+  if (patterns) {
+    const requested = call.target ? undefined : getTargetPath(call.tool, call.args, call.workspaceDir);
+    const target = call.target ?? (requested && { requested, resolved: requested });
+    if (!target) {
+      return false;
+    }
+    const candidates =
+      rule.action === "deny" ? [target.requested, target.resolved] : [target.resolved];
+    if (!candidates.some((candidate) => matchesGlob(candidate, patterns))) {
+      return false;
+    }
+  }
+
+  if (rule.commands) {
+    const command = call.args.command;
+    if (typeof command !== "string" || !matchesCommand(command, rule.commands, rule.action)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function matchesName(name: string, pattern: string): boolean {
+  return new RegExp(`^${globToRegExpSource(pattern)}$`).test(name);
+}
+
+/**
+ * Get the path a tool call targets, relative to the workspace
+ *
+ * Tools with an optional path parameter (ls, grep) target the workspace
+ * itself when it is left out.
+ *
+ * @returns The path with "/" separators, or undefined if the tool takes no path
+ */
+function getTargetPath(
+  tool: Tool,
+  args: Record<string, unknown>,
+  workspaceDir: string
+): string | undefined {
+  const key = PATH_ARGUMENTS.find((name) => name in tool.parameters.properties);
+  if (!key) {
+    return undefined;
+  }
+
+  const value = typeof args[key] === "string" ? (args[key] as string) : ".";
+  return toRelativePath(workspaceDir, path.resolve(workspaceDir, value));
+}
+
+function toRelativePath(workspaceDir: string, target: string): string {
+  return path.relative(workspaceDir, target).split(path.sep).join("/") || ".";
+}
+
+/**
+ * Match a shell command against command globs
+ *
+ * Chained commands are split on the control operators &&, ||, ;, |, a
+ * lone & and newlines. An allow rule needs every part to match (so
+ * "npm test && rm -rf ." is not allowed by "npm test*"), and never matches
+ * command substitution, process substitution or output redirection to a
+ * file; a deny rule matches if any part does. Redirections between
+ * streams such as 2>&1 are ignored.
+ */
+function matchesCommand(command: string, patterns: string[], action: "allow" | "deny"): boolean {
+  const regexes = patterns.map((pattern) => new RegExp(`^${globToRegExpSource(pattern, true)}$`));
+  const parts = command
+    .split(/&&|\|\||[;|\n]|(?<![<>])&(?!>)/)
+    .map((part) => part.replace(STREAM_REDIRECTION, " ").replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const matches = (part: string) => regexes.some((regex) => regex.test(part));
+
+  if (action === "deny") {
+    return parts.some(matches);
+  }
+  const unsafe = /\$\(|`|[<>]\(|>/.test(command.replace(STREAM_REDIRECTION, " "));
+  return !unsafe && parts.length > 0 && parts.every(matches);
+}
+
+/**
+ * Append a policy decision to the policy's audit log, if it has one
+ *
+ * Long argument values are shortened. Failures to write are ignored so
+ * logging never blocks a tool call.
+ */
+export async function recordPolicyDecision(
+  policy: ToolPolicy,
+  workspaceDir: string,
+  entry: {
+    sessionId: string;
+    toolCallId: string;
+    toolName: string;
+    args: Record<string, unknown>;
+    decision: PolicyDecision;
+  }
+): Promise<void> {
+  if (!policy.auditLog) {
+    return;
+  }
+
+  const args = Object.fromEntries(
+    Object.entries(entry.args).map(([key, value]) => [
+      key,
+      typeof value === "string" && value.length > MAX_AUDIT_ARG_CHARS
+        ? `${value.slice(0, MAX_AUDIT_ARG_CHARS)}...`
+        : value,
+    ])
+  );
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    sessionId: entry.sessionId,
+    toolCallId: entry.toolCallId,
+    tool: entry.toolName,
+    args,
+    ...entry.decision,
+  });
+
+  const logFile = path.resolve(workspaceDir, policy.auditLog);
+  try {
+    await fs.mkdir(path.dirname(logFile), { recursive: true });
+    await fs.appendFile(logFile, `${line}\n`, "utf-8");
+  } catch {
+    // Auditing is best effort
+  }
+}
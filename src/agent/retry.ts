@@ -0,0 +1,134 @@
+/**
+ * Retry Policy - Backoff for throttled or overloaded model calls
+ *
+ * Inspired by OpenClaw's retry handling in the embedded runner
+ *
+ * Key concepts:
+ * - Jittered exponential backoff between attempts
+ * - Server-provided Retry-After delays take precedence
+ * - Only the model call is retried; tools that already ran are never re-executed
+ */
+
+import type { AgentErrorKind, RetryPolicy } from "../types.js";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+// Error kinds worth retrying against the same model
+const RETRYABLE_ERROR_KINDS = new Set<AgentErrorKind>(["rate_limit", "overloaded"]);
+
+/**
+ * Merge a partial policy with the defaults
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Check whether an error kind should be retried
+ */
+export function isRetryableError(kind: AgentErrorKind): boolean {
+  return RETRYABLE_ERROR_KINDS.has(kind);
+}
+
+/**
+ * Compute the delay before the given retry attempt (1-indexed)
+ *
+ * Uses "equal jitter": half the exponential delay is fixed, the other half
+ * random, so concurrent runs don't retry in lockstep.
+ *
+ * @returns Delay in milliseconds, or undefined if the server asked for a
+ *          longer wait than the policy allows
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Wait for the given delay, resolving early if the signal aborts
+ */
+export function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (abortSignal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an async operation, retrying retryable failures with backoff
+ *
+ * The final error is rethrown once retries are exhausted, the error is not
+ * retryable, or the run is aborted.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: {
+    policy: RetryPolicy;
+    classifyError: (error: unknown) => AgentErrorKind | undefined;
+    getRetryAfterMs?: (error: unknown) => number | undefined;
+    // Return false to fail fast on an otherwise retryable error
+    shouldRetry?: (kind: AgentErrorKind) => boolean;
+    onRetry?: (info: {
+      attempt: number;
+      delayMs: number;
+      kind: AgentErrorKind;
+      error: unknown;
+    }) => void;
+    abortSignal?: AbortSignal;
+  }
+): Promise<T> {
+  const { policy, abortSignal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const kind = options.classifyError(error) ?? "unknown";
+      if (
+        attempt > policy.maxRetries ||
+        !isRetryableError(kind) ||
+        options.shouldRetry?.(kind) === false ||
+        abortSignal?.aborted
+      ) {
+        throw error;
+      }
+
+      const delayMs = computeRetryDelay(attempt, policy, options.getRetryAfterMs?.(error));
+      if (delayMs === undefined) {
+        throw error;
+      }
+
+      options.onRetry?.({ attempt, delayMs, kind, error });
+      await sleep(delayMs, abortSignal);
+
+      if (abortSignal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
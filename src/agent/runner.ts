@@ -8,530 +8,700 @@
  * - Tool execution loop (agent calls tool -> execute -> return result)
  * - Session history management
  * - Error handling and retries
- * - Multi-provider support (Anthropic API, OpenAI, AWS Bedrock)
+ * - Per-run budgets for tokens, cost, time and tool iterations
+ * - Tool policy rules and permission modes checked before each tool call
+ * - Pluggable providers (Anthropic API, OpenAI, AWS Bedrock, custom)
  */
 
-import Anthropic from "@anthropic-ai/sdk";
-import AnthropicBedrock from "@anthropic-ai/bedrock-sdk";
-import OpenAI from "openai";
 import type {
+  AgentErrorKind,
+  AgentEventHandler,
   AgentRunParams,
   AgentRunResult,
+  JsonSchema,
   Message,
+  ModelProvider,
+  ModelPricing,
+  ProviderTurnParams,
+  ProviderTurnResult,
+  RetryPolicy,
+  RunBudget,
+  ThinkingConfig,
   Tool,
+  ToolCall,
   ToolContext,
-  Provider,
-  BedrockConfig,
+  ToolExecutionResult,
+  ToolPolicy,
+  ToolResult,
+  TokenUsage,
 } from "../types.js";
-import { toAnthropicTools, createCodingTools } from "../tools/index.js";
+import { createCodingTools } from "../tools/index.js";
+import { ProcessRegistry } from "../tools/background.js";
+import { resolveProvider } from "../providers/index.js";
+import { addUsage, estimateCost, getModelPricing } from "../providers/pricing.js";
+import { resolveRetryPolicy, withRetry } from "./retry.js";
+import { checkPermission, type PermissionSettings } from "./permissions.js";
+import {
+  createPathFilter,
+  evaluatePolicy,
+  recordPolicyDecision,
+  resolvePolicyTarget,
+} from "./policy.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { checkJsonSchema, coerceJsonSchema, validateJsonSchema } from "../utils/json-schema.js";
 import {
   loadSession,
   saveSession,
   createSession,
   resolveSessionFile,
-  limitHistoryTurns,
 } from "../session/session-manager.js";
+import {
+  createAssistantMessage,
+  createToolResultMessage,
+  getMessageText,
+  getToolResultText,
+} from "../session/messages.js";
+import {
+  compactHistory,
+  estimateTextTokens,
+  estimateTokens,
+  truncateToolResults,
+  SUMMARY_SYSTEM_PROMPT,
+} from "../session/compaction.js";
 import { buildSystemPrompt, loadContextFiles } from "../prompts/system-prompt.js";
 import fs from "node:fs/promises";
 
-// Default models per provider
-const DEFAULT_MODELS: Record<Provider, string> = {
-  anthropic: "claude-sonnet-4-20250514",
-  openai: "gpt-4o",
-  bedrock: "us.anthropic.claude-sonnet-4-20250514-v1:0",
-};
-
-// Model ID mapping for Bedrock (short name -> full ARN)
-const BEDROCK_MODEL_MAP: Record<string, string> = {
-  // Claude 4 models
-  "claude-sonnet-4": "us.anthropic.claude-sonnet-4-20250514-v1:0",
-  "claude-opus-4": "us.anthropic.claude-opus-4-20250514-v1:0",
-  // Claude 3.5 models
-  "claude-3.5-sonnet": "us.anthropic.claude-3-5-sonnet-20241022-v2:0",
-  "claude-3.5-haiku": "us.anthropic.claude-3-5-haiku-20241022-v1:0",
-  // Claude 3 models
-  "claude-3-opus": "us.anthropic.claude-3-opus-20240229-v1:0",
-  "claude-3-sonnet": "us.anthropic.claude-3-sonnet-20240229-v1:0",
-  "claude-3-haiku": "us.anthropic.claude-3-haiku-20240307-v1:0",
-};
-
-const MAX_TOOL_ITERATIONS = 25;
-const MAX_HISTORY_TURNS = 50;
-
-// Unified client types
-type AnthropicClient = Anthropic | AnthropicBedrock;
-type LLMClient = AnthropicClient | OpenAI;
+export { getBedrockModelShortcuts } from "../providers/index.js";
+
+const DEFAULT_MAX_ITERATIONS = 25;
+const MAX_OUTPUT_TOKENS = 8192;
+const SUMMARY_MAX_TOKENS = 2048;
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 100_000;
+const DEFAULT_TOOL_CONCURRENCY = 4;
+
+// Upper bound on switching auth profiles within one run
+const MAX_AUTH_ROTATIONS = 10;
+
+// Errors that move a run on to the next model in its fallback chain
+const FALLBACK_ERROR_KINDS = new Set<AgentErrorKind>([
+  "rate_limit",
+  "overloaded",
+  "model_not_found",
+]);
+
+// Stop reasons for output cut off at the token limit (Anthropic and Bedrock, OpenAI)
+const MAX_TOKENS_STOP_REASONS = new Set(["max_tokens", "length"]);
 
 interface RunContext {
-  client: LLMClient;
+  client: unknown;
+  provider: ModelProvider;
   tools: Tool[];
   toolContext: ToolContext;
   sessionId: string;
   model: string;
-  provider: Provider;
-  onPartialReply?: (text: string) => void;
-  onToolExecution?: (toolName: string, args: Record<string, unknown>) => void;
-  onToolResult?: (toolName: string, result: string) => void;
+  retryPolicy: RetryPolicy;
+  toolConcurrency: number;
+  promptCaching: boolean;
+  thinking?: ThinkingConfig;
+  budget: RunBudget;
+  pricing?: Record<string, ModelPricing>;
+  permissions: PermissionSettings;
+  policy?: ToolPolicy;
+  // True when a throttled key can be swapped for another auth profile
+  // instead of backing off
+  canRotateAuth?: () => boolean;
+  emit: AgentEventHandler;
 }
 
 /**
- * Create the appropriate client based on provider
+ * Build the event handler for a run
+ *
+ * Every event goes to params.onEvent; the per-kind callbacks are served
+ * from the same events so both APIs always see the same run.
  */
-function createClient(
-  provider: Provider,
-  apiKey?: string,
-  bedrockConfig?: BedrockConfig
-): LLMClient {
-  if (provider === "bedrock") {
-    const config: ConstructorParameters<typeof AnthropicBedrock>[0] = {};
-
-    // Region from config or environment
-    if (bedrockConfig?.region) {
-      config.awsRegion = bedrockConfig.region;
-    } else if (process.env.AWS_REGION) {
-      config.awsRegion = process.env.AWS_REGION;
-    } else if (process.env.AWS_DEFAULT_REGION) {
-      config.awsRegion = process.env.AWS_DEFAULT_REGION;
-    }
-
-    // Explicit credentials if provided
-    if (bedrockConfig?.accessKeyId && bedrockConfig?.secretAccessKey) {
-      config.awsAccessKey = bedrockConfig.accessKeyId;
-      config.awsSecretKey = bedrockConfig.secretAccessKey;
-      if (bedrockConfig.sessionToken) {
-        config.awsSessionToken = bedrockConfig.sessionToken;
+function createEventEmitter(params: AgentRunParams): AgentEventHandler {
+  return (event) => {
+    params.onEvent?.(event);
+
+    switch (event.type) {
+      case "message_delta":
+        params.onPartialReply?.(event.text);
+        break;
+      case "thinking_delta":
+        params.onThinking?.(event.text);
+        break;
+      case "tool_start":
+        params.onToolExecution?.(event.toolName, event.args);
+        break;
+      case "tool_progress":
+        params.onToolProgress?.(event.toolName, event.chunk);
+        break;
+      case "tool_end":
+        params.onToolResult?.(event.toolName, event.result);
+        break;
+      case "retry": {
+        const { type: _type, ...info } = event;
+        params.onRetry?.(info);
+        break;
+      }
+      case "fallback": {
+        const { type: _type, ...info } = event;
+        params.onFallback?.(info);
+        break;
       }
     }
+  };
+}
 
-    return new AnthropicBedrock(config);
+/**
+ * A run stopped because it reached one of its budget limits
+ */
+class RunLimitError extends Error {
+  constructor(
+    readonly kind: "budget_exceeded" | "iteration_limit",
+    message: string
+  ) {
+    super(message);
+    this.name = "RunLimitError";
   }
+}
 
-  if (provider === "openai") {
-    return new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
+/**
+ * Coerce and validate a tool call's arguments against the tool's parameters
+ *
+ * @returns The arguments to execute with, or an error for the model
+ */
+function prepareToolArguments(
+  tool: Tool,
+  toolCall: ToolCall
+): { args: Record<string, unknown> } | { error: string } {
+  const invalid = (problems: string[]) => ({
+    error: [
+      `Error: Invalid arguments for tool ${tool.name}:`,
+      ...problems.map((problem) => `- ${problem}`),
+      `Expected parameters: ${JSON.stringify(tool.parameters)}`,
+    ].join("\n"),
+  });
+
+  if (toolCall.argumentsError) {
+    return invalid([toolCall.argumentsError]);
   }
 
-  // Default to Anthropic API
-  return new Anthropic({
-    apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-  });
+  const args = coerceJsonSchema(toolCall.arguments, tool.parameters) as Record<string, unknown>;
+  const errors = validateJsonSchema(args, tool.parameters, "args");
+  return errors.length > 0 ? invalid(errors) : { args };
 }
 
 /**
- * Resolve model ID for the given provider
+ * Run a tool call that passed validation, if the policy and permissions allow it
  */
-function resolveModel(model: string | undefined, provider: Provider): string {
-  if (!model) {
-    return DEFAULT_MODELS[provider];
-  }
+async function runCheckedTool(
+  ctx: RunContext,
+  tool: Tool,
+  toolCall: ToolCall,
+  args: Record<string, unknown>
+): Promise<ToolExecutionResult> {
+  let isPathDenied: ToolContext["isPathDenied"];
+  if (ctx.policy) {
+    const call = {
+      sessionId: ctx.sessionId,
+      tool,
+      args,
+      workspaceDir: ctx.toolContext.workspaceDir,
+    };
+    const decision = evaluatePolicy(ctx.policy, {
+      ...call,
+      target: await resolvePolicyTarget(tool, args, ctx.toolContext),
+    });
+    const event = { toolCallId: toolCall.id, toolName: tool.name, args, decision };
+    ctx.emit({ type: "policy_decision", ...event });
+    await recordPolicyDecision(ctx.policy, ctx.toolContext.workspaceDir, {
+      sessionId: ctx.sessionId,
+      ...event,
+    });
 
-  // For Bedrock, check if we need to map the model name
-  if (provider === "bedrock") {
-    // If it's already a full ARN, use it
-    if (model.includes("anthropic.claude")) {
-      return model;
-    }
-    // Try to map short name to full ARN
-    const mapped = BEDROCK_MODEL_MAP[model];
-    if (mapped) {
-      return mapped;
+    if (decision.action === "deny") {
+      return { content: `Policy denied: ${decision.reason} (rule: ${decision.rule})`, isError: true };
     }
-    // If not found, assume it's a valid model ID
-    return model;
+    isPathDenied = await createPathFilter(ctx.policy, call);
   }
 
-  return model;
+  const permission = await checkPermission(
+    ctx.permissions,
+    tool,
+    toolCall,
+    args,
+    ctx.sessionId,
+    ctx.toolContext
+  );
+  if (!permission.allowed) {
+    return { content: `Permission denied: ${permission.reason}`, isError: true };
+  }
+
+  const onProgress = (chunk: string) =>
+    ctx.emit({ type: "tool_progress", toolCallId: toolCall.id, toolName: tool.name, chunk });
+
+  try {
+    return await tool.execute(args, { ...ctx.toolContext, onProgress, isPathDenied });
+  } catch (error) {
+    const err = error as Error;
+    return { content: `Error executing tool ${tool.name}: ${err.message}`, isError: true };
+  }
 }
 
 /**
  * Execute a single tool call
+ *
+ * Arguments are coerced to the tool's parameter schema first; calls that
+ * still don't match are answered with the problems instead of executed.
+ * Valid calls are then checked against the tool policy and permissions.
  */
 async function executeTool(
   ctx: RunContext,
-  toolName: string,
-  args: Record<string, unknown>
-): Promise<{ content: string; isError?: boolean }> {
+  toolCall: ToolCall
+): Promise<ToolExecutionResult> {
+  const { id: toolCallId, name: toolName } = toolCall;
+  const startedAt = Date.now();
   const tool = ctx.tools.find((t) => t.name === toolName);
+  const prepared = tool ? prepareToolArguments(tool, toolCall) : undefined;
+  const args = prepared && "args" in prepared ? prepared.args : toolCall.arguments;
+
+  ctx.emit({ type: "tool_start", toolCallId, toolName, args });
+
+  let result: ToolExecutionResult;
 
   if (!tool) {
-    return {
+    result = {
       content: `Error: Unknown tool "${toolName}"`,
       isError: true,
     };
+  } else if (prepared && "error" in prepared) {
+    result = { content: prepared.error, isError: true };
+  } else {
+    result = await runCheckedTool(ctx, tool, toolCall, args);
   }
 
-  ctx.onToolExecution?.(toolName, args);
+  ctx.emit({
+    type: "tool_end",
+    toolCallId,
+    toolName,
+    result: getToolResultText(result.content),
+    isError: result.isError,
+    durationMs: Date.now() - startedAt,
+  });
 
-  try {
-    const result = await tool.execute(args, ctx.toolContext);
-    ctx.onToolResult?.(toolName, result.content);
-    return result;
-  } catch (error) {
-    const err = error as Error;
-    const errorMessage = `Error executing tool ${toolName}: ${err.message}`;
-    ctx.onToolResult?.(toolName, errorMessage);
-    return { content: errorMessage, isError: true };
-  }
+  return result;
 }
 
 /**
- * Convert our Message format to Anthropic message format
+ * Execute the tool calls from one assistant message
+ *
+ * Consecutive read-only calls run concurrently (up to ctx.toolConcurrency);
+ * side-effecting calls run one at a time, after everything requested
+ * before them. Results are returned in the original call order.
  */
-function toAnthropicMessages(
-  messages: Message[]
-): Anthropic.Messages.MessageParam[] {
-  return messages
-    .filter((m) => m.role !== "system")
-    .map((m) => {
-      if (m.role === "assistant" && m.toolCalls && m.toolCalls.length > 0) {
-        // Assistant message with tool calls
-        const content: Anthropic.Messages.ContentBlockParam[] = [];
-
-        if (m.content) {
-          content.push({ type: "text", text: m.content });
-        }
+async function executeToolCalls(
+  ctx: RunContext,
+  toolCalls: ToolCall[]
+): Promise<ToolResult[]> {
+  const results: ToolResult[] = [];
+  let batch: ToolCall[] = [];
+
+  const runCall = async (toolCall: ToolCall): Promise<ToolResult> => {
+    // Every call still needs a result so the transcript stays valid
+    if (ctx.toolContext.abortSignal?.aborted) {
+      return {
+        toolCallId: toolCall.id,
+        content: "Tool call skipped: the run was cancelled.",
+        isError: true,
+      };
+    }
 
-        for (const toolCall of m.toolCalls) {
-          content.push({
-            type: "tool_use",
-            id: toolCall.id,
-            name: toolCall.name,
-            input: toolCall.arguments,
-          });
-        }
+    const result = await executeTool(ctx, toolCall);
+    return {
+      toolCallId: toolCall.id,
+      content: result.content,
+      isError: result.isError,
+    };
+  };
 
-        return { role: "assistant" as const, content };
-      }
+  const flush = async () => {
+    results.push(...(await mapWithConcurrency(batch, ctx.toolConcurrency, runCall)));
+    batch = [];
+  };
 
-      if (m.role === "user" && m.toolResults && m.toolResults.length > 0) {
-        // User message with tool results
-        const content: Anthropic.Messages.ToolResultBlockParam[] = m.toolResults.map(
-          (tr) => ({
-            type: "tool_result" as const,
-            tool_use_id: tr.toolCallId,
-            content: tr.content,
-            is_error: tr.isError,
-          })
-        );
+  for (const toolCall of toolCalls) {
+    const tool = ctx.tools.find((t) => t.name === toolCall.name);
+    if (tool?.readOnly && tool.concurrencySafe !== false) {
+      batch.push(toolCall);
+      continue;
+    }
 
-        return { role: "user" as const, content };
-      }
+    await flush();
+    results.push(await runCall(toolCall));
+  }
 
-      // Regular text message
-      return {
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      };
-    });
+  await flush();
+  return results;
 }
 
 /**
- * Convert our Message format to OpenAI message format
+ * Progress of a run, kept outside the turn loop so that it survives a
+ * provider failure and can be continued by the next fallback model
  */
-function toOpenAIMessages(
-  messages: Message[],
-  systemPrompt: string
-): OpenAI.Chat.ChatCompletionMessageParam[] {
-  const result: OpenAI.Chat.ChatCompletionMessageParam[] = [
-    { role: "system", content: systemPrompt },
-  ];
+interface TurnState {
+  newMessages: Message[];
+  usage: TokenUsage;
+  iterations: number;
+  response: string;
+  // Set once the model has given its final answer
+  finished: boolean;
+  // Estimated cost in USD of all priced model calls so far
+  costUsd?: number;
+  // Text streamed by the current model call, kept if the call is cancelled
+  partialText: string;
+}
 
-  for (const m of messages) {
-    if (m.role === "system") continue;
-
-    if (m.role === "assistant" && m.toolCalls && m.toolCalls.length > 0) {
-      // Assistant message with tool calls
-      result.push({
-        role: "assistant",
-        content: m.content || null,
-        tool_calls: m.toolCalls.map((tc) => ({
-          id: tc.id,
-          type: "function" as const,
-          function: {
-            name: tc.name,
-            arguments: JSON.stringify(tc.arguments),
-          },
-        })),
-      });
-    } else if (m.role === "user" && m.toolResults && m.toolResults.length > 0) {
-      // Tool results
-      for (const tr of m.toolResults) {
-        result.push({
-          role: "tool",
-          tool_call_id: tr.toolCallId,
-          content: tr.content,
-        });
-      }
-    } else {
-      // Regular text message
-      result.push({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      });
-    }
+/**
+ * Count every token a run has been billed for
+ */
+function totalTokens(usage: TokenUsage): number {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    (usage.cacheReadTokens ?? 0) +
+    (usage.cacheWriteTokens ?? 0)
+  );
+}
+
+/**
+ * Check the run's token and cost limits
+ *
+ * @returns The error to stop the run with, or undefined if within budget
+ */
+function checkBudget(budget: RunBudget, state: TurnState): RunLimitError | undefined {
+  const tokens = totalTokens(state.usage);
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return new RunLimitError(
+      "budget_exceeded",
+      `Token budget exceeded: used ${tokens} of ${budget.maxTokens} tokens.`
+    );
   }
 
-  return result;
+  const costUsd = state.costUsd ?? 0;
+  if (budget.maxCostUsd !== undefined && costUsd >= budget.maxCostUsd) {
+    return new RunLimitError(
+      "budget_exceeded",
+      `Cost budget exceeded: spent $${costUsd.toFixed(4)} of $${budget.maxCostUsd}.`
+    );
+  }
+
+  return undefined;
 }
 
 /**
- * Convert our Tool format to OpenAI tool format
+ * Record one model call's usage and estimated cost
  */
-function toOpenAITools(tools: Tool[]): OpenAI.Chat.ChatCompletionTool[] {
-  return tools.map((tool) => ({
-    type: "function" as const,
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.parameters as Record<string, unknown>,
-    },
-  }));
+function recordUsage(ctx: RunContext, state: TurnState, usage: TokenUsage): void {
+  addUsage(state.usage, usage);
+
+  const cost = estimateCost(ctx.model, usage, ctx.pricing);
+  if (cost !== undefined) {
+    state.costUsd = (state.costUsd ?? 0) + cost;
+  }
+
+  ctx.emit({ type: "usage", usage: { ...state.usage } });
 }
 
 /**
- * Run a single agent turn with OpenAI
+ * Make one model call, retrying throttled or overloaded attempts
+ *
+ * @param prepare - Called before every attempt; returns the call parameters
+ */
+function streamWithRetry(
+  ctx: RunContext,
+  prepare: () => Omit<ProviderTurnParams, "client" | "model" | "abortSignal" | "promptCaching">
+): Promise<ProviderTurnResult> {
+  return withRetry(
+    () =>
+      ctx.provider.streamTurn({
+        ...prepare(),
+        client: ctx.client,
+        model: ctx.model,
+        abortSignal: ctx.toolContext.abortSignal,
+        promptCaching: ctx.promptCaching,
+      }),
+    {
+      policy: ctx.retryPolicy,
+      classifyError: (error) => ctx.provider.classifyError(error),
+      getRetryAfterMs: (error) => ctx.provider.getRetryAfterMs?.(error),
+      shouldRetry: (kind) => !(kind === "rate_limit" && ctx.canRotateAuth?.()),
+      onRetry: ({ attempt, delayMs, kind, error }) => {
+        ctx.emit({
+          type: "retry",
+          attempt,
+          maxRetries: ctx.retryPolicy.maxRetries,
+          delayMs,
+          provider: ctx.provider.name,
+          model: ctx.model,
+          error: { kind, message: (error as Error).message },
+        });
+      },
+      abortSignal: ctx.toolContext.abortSignal,
+    }
+  );
+}
+
+/**
+ * Run a single agent turn (may involve multiple tool calls)
+ *
+ * The provider streams one model call at a time; this loop executes
+ * the requested tools and feeds the results back until the model stops.
  */
-async function runOpenAIAgentTurn(
+async function runAgentTurn(
   ctx: RunContext,
   systemPrompt: string,
-  messages: Message[]
-): Promise<{
-  response: string;
-  newMessages: Message[];
-  usage: { inputTokens: number; outputTokens: number };
-}> {
-  const client = ctx.client as OpenAI;
-  const openaiTools = toOpenAITools(ctx.tools);
-
-  let totalInputTokens = 0;
-  let totalOutputTokens = 0;
-  const newMessages: Message[] = [];
-  let finalResponse = "";
-  let iterations = 0;
-
-  while (iterations < MAX_TOOL_ITERATIONS) {
-    iterations++;
-
-    const allMessages = toOpenAIMessages([...messages, ...newMessages], systemPrompt);
-
-    // Make API call with streaming
-    const stream = await client.chat.completions.create({
-      model: ctx.model,
-      max_tokens: 8192,
-      messages: allMessages,
-      tools: openaiTools.length > 0 ? openaiTools : undefined,
-      stream: true,
-      stream_options: { include_usage: true },
-    });
+  messages: Message[],
+  state: TurnState
+): Promise<void> {
+  const { newMessages } = state;
+  const maxIterations = ctx.budget.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+  while (true) {
+    if (ctx.toolContext.abortSignal?.aborted) {
+      throw new Error("Run cancelled");
+    }
 
-    let currentText = "";
-    const toolCalls: Array<{
-      id: string;
-      name: string;
-      arguments: string;
-    }> = [];
-    let currentToolCallIndex = -1;
-
-    // Handle streaming events
-    for await (const chunk of stream) {
-      // Handle usage data
-      if (chunk.usage) {
-        totalInputTokens += chunk.usage.prompt_tokens || 0;
-        totalOutputTokens += chunk.usage.completion_tokens || 0;
-      }
+    if (state.iterations >= maxIterations) {
+      throw new RunLimitError(
+        "iteration_limit",
+        `Stopped after ${maxIterations} tool iterations without a final answer.`
+      );
+    }
 
-      const delta = chunk.choices[0]?.delta;
-      if (!delta) continue;
+    state.iterations++;
 
-      // Handle text content
-      if (delta.content) {
-        currentText += delta.content;
-        ctx.onPartialReply?.(delta.content);
-      }
+    // Only the model call is retried, so tools from earlier iterations never run twice
+    const turn = await streamWithRetry(ctx, () => {
+      state.partialText = "";
+      ctx.emit({ type: "message_start", provider: ctx.provider.name, model: ctx.model });
+      return {
+        systemPrompt,
+        messages: [...messages, ...newMessages],
+        tools: ctx.tools,
+        maxTokens: MAX_OUTPUT_TOKENS,
+        onText: (text) => {
+          state.partialText += text;
+          ctx.emit({ type: "message_delta", text });
+        },
+        thinking: ctx.thinking,
+        onThinking: (text) => ctx.emit({ type: "thinking_delta", text }),
+      };
+    });
 
-      // Handle tool calls
-      if (delta.tool_calls) {
-        for (const tc of delta.tool_calls) {
-          if (tc.index !== undefined && tc.index !== currentToolCallIndex) {
-            currentToolCallIndex = tc.index;
-            toolCalls[tc.index] = {
-              id: tc.id || "",
-              name: tc.function?.name || "",
-              arguments: tc.function?.arguments || "",
-            };
-          } else if (tc.index !== undefined) {
-            if (tc.id) toolCalls[tc.index].id = tc.id;
-            if (tc.function?.name) toolCalls[tc.index].name += tc.function.name;
-            if (tc.function?.arguments) toolCalls[tc.index].arguments += tc.function.arguments;
-          }
-        }
-      }
+    state.partialText = "";
+
+    // The last tool call of a cut-off turn may be missing part of its
+    // arguments; have the model send it again rather than run it
+    const lastCall = turn.toolCalls[turn.toolCalls.length - 1];
+    if (lastCall && MAX_TOKENS_STOP_REASONS.has(turn.stopReason ?? "")) {
+      lastCall.argumentsError =
+        "the call was cut off at the output token limit; send it again, splitting large content across several calls";
     }
 
-    // Parse tool call arguments
-    const parsedToolCalls = toolCalls.map((tc) => ({
-      id: tc.id,
-      name: tc.name,
-      arguments: tc.arguments ? JSON.parse(tc.arguments) : {},
-    }));
+    ctx.emit({
+      type: "message_end",
+      text: turn.text,
+      toolCalls: turn.toolCalls,
+      stopReason: turn.stopReason,
+      usage: turn.usage,
+    });
+    recordUsage(ctx, state, turn.usage);
 
     // Add assistant message
-    newMessages.push({
-      role: "assistant",
-      content: currentText,
-      toolCalls: parsedToolCalls.length > 0 ? parsedToolCalls : undefined,
-    });
+    newMessages.push(createAssistantMessage(turn));
 
     // If no tool calls, we're done
-    if (parsedToolCalls.length === 0) {
-      finalResponse = currentText;
+    if (turn.toolCalls.length === 0) {
+      state.response = turn.text;
+      state.finished = true;
       break;
     }
 
+    // Over budget: answer the requested calls without running them so the
+    // saved transcript stays valid, then stop
+    const overBudget = checkBudget(ctx.budget, state);
+
     // Execute tool calls
-    const toolResults: Array<{
-      toolCallId: string;
-      content: string;
-      isError?: boolean;
-    }> = [];
-
-    for (const toolCall of parsedToolCalls) {
-      const result = await executeTool(ctx, toolCall.name, toolCall.arguments);
-      toolResults.push({
-        toolCallId: toolCall.id,
-        content: result.content,
-        isError: result.isError,
-      });
-    }
+    const toolResults = overBudget
+      ? turn.toolCalls.map((toolCall) => ({
+          toolCallId: toolCall.id,
+          content: "Tool call skipped: the run budget was exhausted.",
+          isError: true,
+        }))
+      : await executeToolCalls(ctx, turn.toolCalls);
 
     // Add tool results as user message
-    newMessages.push({
-      role: "user",
-      content: "",
-      toolResults,
-    });
+    newMessages.push(createToolResultMessage(toolResults));
+
+    if (overBudget) {
+      throw overBudget;
+    }
+
+    // Check stop reason - if end_turn, we're done even with tool calls
+    if (turn.stopReason === "end_turn") {
+      state.response = turn.text;
+      state.finished = true;
+      break;
+    }
   }
+}
 
-  return {
-    response: finalResponse,
-    newMessages,
-    usage: { inputTokens: totalInputTokens, outputTokens: totalOutputTokens },
-  };
+const FINAL_ANSWER_TOOL = "final_answer";
+
+/**
+ * Parse a plain-text answer as JSON, allowing a Markdown code fence
+ *
+ * @returns The parsed value, or undefined if the text is not JSON
+ */
+function parseJsonText(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  try {
+    return JSON.parse((fenced ? fenced[1] : text).trim());
+  } catch {
+    return undefined;
+  }
 }
 
 /**
- * Run a single agent turn with Anthropic (may involve multiple tool calls)
+ * Force the final answer into the response schema
+ *
+ * After the tool loop, the model is made to call a synthetic final_answer
+ * tool whose parameters are the schema. An answer that fails validation
+ * is sent back with the problems for one repair attempt.
  */
-async function runAnthropicAgentTurn(
+async function extractStructuredOutput(
   ctx: RunContext,
   systemPrompt: string,
-  messages: Message[]
-): Promise<{
-  response: string;
-  newMessages: Message[];
-  usage: { inputTokens: number; outputTokens: number };
-}> {
-  const client = ctx.client as AnthropicClient;
-  const anthropicMessages = toAnthropicMessages(messages);
-  const anthropicTools = toAnthropicTools(ctx.tools);
-
-  let totalInputTokens = 0;
-  let totalOutputTokens = 0;
-  const newMessages: Message[] = [];
-  let finalResponse = "";
-  let iterations = 0;
-
-  while (iterations < MAX_TOOL_ITERATIONS) {
-    iterations++;
-
-    // Make API call with streaming
-    const stream = client.messages.stream({
-      model: ctx.model,
-      max_tokens: 8192,
-      system: systemPrompt,
-      messages: [...anthropicMessages, ...toAnthropicMessages(newMessages)],
-      tools: anthropicTools.length > 0 ? anthropicTools : undefined,
-    });
-
-    let currentText = "";
-    const toolCalls: Array<{
-      id: string;
-      name: string;
-      arguments: Record<string, unknown>;
-    }> = [];
-
-    // Handle streaming events
-    stream.on("text", (text) => {
-      currentText += text;
-      ctx.onPartialReply?.(text);
-    });
+  messages: Message[],
+  schema: JsonSchema,
+  state: TurnState
+): Promise<{ output: unknown } | { error: string }> {
+  // Tool parameters must be an object, so other schemas are wrapped
+  const wrapped = schema.type !== "object";
+  const finalAnswerTool: Tool = {
+    name: FINAL_ANSWER_TOOL,
+    description: "Return your final answer in the required format.",
+    parameters: (wrapped
+      ? { type: "object", properties: { value: schema }, required: ["value"] }
+      : schema) as Tool["parameters"],
+    execute: async () => ({ content: "" }),
+  };
 
-    // Wait for completion
-    const response = await stream.finalMessage();
+  const conversation: Message[] = [
+    ...messages,
+    { role: "user", content: `Call the ${FINAL_ANSWER_TOOL} tool with your final answer.` },
+  ];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const turn = await streamWithRetry(ctx, () => ({
+      systemPrompt,
+      messages: conversation,
+      // Earlier tool calls in the history need their definitions
+      tools: [...ctx.tools, finalAnswerTool],
+      maxTokens: MAX_OUTPUT_TOKENS,
+      toolChoice: FINAL_ANSWER_TOOL,
+    }));
+    recordUsage(ctx, state, turn.usage);
 
-    totalInputTokens += response.usage.input_tokens;
-    totalOutputTokens += response.usage.output_tokens;
+    // Providers that can't force a tool call may answer with plain JSON
+    const call = turn.toolCalls.find((tc) => tc.name === FINAL_ANSWER_TOOL);
+    let value: unknown;
+    if (call) {
+      value = wrapped ? call.arguments.value : call.arguments;
+    } else {
+      value = parseJsonText(turn.text);
+    }
 
-    // Extract tool calls from response
-    for (const block of response.content) {
-      if (block.type === "tool_use") {
-        toolCalls.push({
-          id: block.id,
-          name: block.name,
-          arguments: block.input as Record<string, unknown>,
-        });
-      }
+    errors =
+      value === undefined
+        ? [`no ${FINAL_ANSWER_TOOL} call or JSON answer was returned`]
+        : validateJsonSchema(value, schema);
+    if (errors.length === 0) {
+      return { output: value };
     }
 
-    // Add assistant message
-    newMessages.push({
-      role: "assistant",
-      content: currentText,
-      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-    });
+    // Send the problems back for one repair attempt
+    const feedback = `The answer does not match the required schema:\n${errors
+      .map((e) => `- ${e}`)
+      .join("\n")}\nCall ${FINAL_ANSWER_TOOL} again with a corrected answer.`;
+
+    conversation.push(createAssistantMessage(turn));
+    conversation.push(
+      turn.toolCalls.length > 0
+        ? createToolResultMessage(
+            turn.toolCalls.map((tc) => ({
+              toolCallId: tc.id,
+              content: tc === call ? feedback : "Tool call skipped.",
+              isError: true,
+            }))
+          )
+        : { role: "user", content: feedback }
+    );
+  }
 
-    // If no tool calls, we're done
-    if (toolCalls.length === 0) {
-      finalResponse = currentText;
-      break;
-    }
+  return { error: `Final answer does not match the response schema: ${errors.join("; ")}` };
+}
 
-    // Execute tool calls
-    const toolResults: Array<{
-      toolCallId: string;
-      content: string;
-      isError?: boolean;
-    }> = [];
-
-    for (const toolCall of toolCalls) {
-      const result = await executeTool(ctx, toolCall.name, toolCall.arguments);
-      toolResults.push({
-        toolCallId: toolCall.id,
-        content: result.content,
-        isError: result.isError,
-      });
-    }
+/**
+ * Ask the model to summarize a transcript of older history
+ */
+async function summarizeHistory(
+  ctx: RunContext,
+  transcript: string,
+  state: TurnState
+): Promise<string> {
+  const turn = await ctx.provider.streamTurn({
+    client: ctx.client,
+    model: ctx.model,
+    systemPrompt: SUMMARY_SYSTEM_PROMPT,
+    messages: [{ role: "user", content: transcript }],
+    tools: [],
+    maxTokens: SUMMARY_MAX_TOKENS,
+    // A one-off request: a cache write would cost extra and never be read
+    promptCaching: false,
+    abortSignal: ctx.toolContext.abortSignal,
+  });
 
-    // Add tool results as user message
-    newMessages.push({
-      role: "user",
-      content: "",
-      toolResults,
-    });
+  recordUsage(ctx, state, turn.usage);
 
-    // Check stop reason - if end_turn, we're done even with tool calls
-    if (response.stop_reason === "end_turn") {
-      finalResponse = currentText;
-      break;
-    }
-  }
+  return turn.text;
+}
 
-  return {
-    response: finalResponse,
-    newMessages,
-    usage: { inputTokens: totalInputTokens, outputTokens: totalOutputTokens },
-  };
+/**
+ * Build a user-facing error message for a classified provider error
+ */
+function describeError(
+  kind: AgentErrorKind,
+  err: Error,
+  provider: string,
+  model: string
+): string {
+  switch (kind) {
+    case "context_overflow":
+      return "Context length exceeded even after compacting history. Try starting a new session or using a smaller prompt.";
+    case "rate_limit":
+      return "Rate limit exceeded. Please wait before trying again.";
+    case "overloaded":
+      return `${provider} is overloaded. Please try again shortly.`;
+    case "auth_error":
+      return `Authentication failed for ${provider}. Check your credentials.`;
+    case "model_not_found":
+      return `Model "${model}" not found or not enabled for ${provider}.`;
+    default:
+      return err.message;
+  }
 }
 
 /**
@@ -539,34 +709,109 @@ async function runAnthropicAgentTurn(
  *
  * This orchestrates the full agent execution:
  * 1. Load or create session
- * 2. Build system prompt with tools and context
- * 3. Run agent turn (may involve multiple tool iterations)
+ * 2. Build system prompt with tools and context, summarizing older
+ *    history if it no longer fits the context token budget
+ * 3. Run agent turn (may involve multiple tool iterations), moving down
+ *    the fallback chain on rate limits, overload or unavailable models
  * 4. Save session and return result
  *
- * Supports multiple providers:
- * - "anthropic" (default): Direct Anthropic API
- * - "bedrock": AWS Bedrock
+ * A run that is cancelled or reaches a budget limit saves what it has
+ * done so far, so the session can be resumed with a follow-up prompt.
+ *
+ * The LLM backend is looked up by name in the provider registry
+ * ("anthropic" by default; "openai" and "bedrock" are also built in).
  */
 export async function runAgent(params: AgentRunParams): Promise<AgentRunResult> {
+  const emit = createEventEmitter(params);
+
+  // The time budget stops the run the same way a cancellation does
+  const deadline = new AbortController();
+  const maxDurationMs = params.budget?.maxDurationMs;
+  const timer =
+    maxDurationMs !== undefined ? setTimeout(() => deadline.abort(), maxDurationMs) : undefined;
+  const abortSignal = params.abortSignal
+    ? AbortSignal.any([params.abortSignal, deadline.signal])
+    : deadline.signal;
+
+  // Background processes started by exec live as long as the run
+  const processes = new ProcessRegistry();
+
+  try {
+    const result = await runWithFallbacks(
+      { ...params, abortSignal },
+      emit,
+      deadline.signal,
+      processes
+    );
+    emit({ type: "result", result });
+    return result;
+  } catch (error) {
+    emit({ type: "error", error: error as Error });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    processes.killAll();
+  }
+}
+
+/**
+ * Run the prompt against the primary model and, if needed, its fallbacks
+ */
+async function runWithFallbacks(
+  params: AgentRunParams,
+  emit: AgentEventHandler,
+  deadlineSignal: AbortSignal,
+  processes: ProcessRegistry
+): Promise<AgentRunResult> {
   const {
     sessionId,
     prompt,
     workspaceDir,
-    provider = "anthropic",
+    provider: providerName = "anthropic",
     apiKey,
     bedrockConfig,
+    authProfiles,
+    providers,
+    fallbacks = [],
     tools: customTools,
-    onPartialReply,
-    onToolExecution,
-    onToolResult,
+    responseSchema,
+    budget = {},
     abortSignal,
   } = params;
 
-  // Resolve model for the provider
-  const model = resolveModel(params.model, provider);
+  const retryPolicy = resolveRetryPolicy(params.retry);
 
-  // Create appropriate client
-  const client = createClient(provider, apiKey, bedrockConfig);
+  // A broken schema would otherwise only fail after all the model calls
+  const schemaErrors = responseSchema ? checkJsonSchema(responseSchema) : [];
+  if (schemaErrors.length > 0) {
+    throw new Error(`Invalid responseSchema: ${schemaErrors.join("; ")}`);
+  }
+
+  // Resolve the primary model and its fallbacks up front so a typo in the
+  // chain fails fast instead of after the primary model has errored
+  const attempts = [
+    { provider: providerName, model: params.model, apiKey },
+    ...fallbacks,
+  ].map((ref) => {
+    // Config overrides win over the registry
+    const provider = resolveProvider(ref.provider, providers);
+    return {
+      provider,
+      model: provider.resolveModel(ref.model),
+      apiKey: ref.apiKey ?? (ref.provider === providerName ? apiKey : undefined),
+    };
+  });
+
+  // A cost cap can't be enforced for a model without a price
+  if (budget.maxCostUsd !== undefined) {
+    const unpriced = attempts.filter(({ model }) => !getModelPricing(model, params.pricing));
+    if (unpriced.length > 0) {
+      const models = unpriced.map(({ model }) => model).join(", ");
+      throw new Error(
+        `budget.maxCostUsd is set but there is no price for ${models}; add it to "pricing" or remove the cost budget`
+      );
+    }
+  }
 
   // Resolve session file
   const sessionsDir = `${workspaceDir}/.agent/sessions`;
@@ -575,12 +820,24 @@ export async function runAgent(params: AgentRunParams): Promise<AgentRunResult>
   // Load or create session
   let session = await loadSession(sessionFile);
   if (!session) {
-    session = createSession({ sessionId, model, provider });
+    session = createSession({
+      sessionId,
+      model: attempts[0].model,
+      provider: attempts[0].provider.name,
+    });
   }
 
   // Create tools
   const tools = customTools || createCodingTools();
 
+  // Shared across attempts; "allow_session" approvals outlive the run when
+  // the caller passes in the session's set
+  const permissions: PermissionSettings = {
+    mode: params.permissionMode ?? "default",
+    onApprovalRequest: params.onApprovalRequest,
+    sessionApprovals: params.sessionApprovals ?? new Set(),
+  };
+
   // Load context files
   const contextFiles = await loadContextFiles(workspaceDir, fs);
 
@@ -592,114 +849,268 @@ export async function runAgent(params: AgentRunParams): Promise<AgentRunResult>
     agentId: sessionId,
   });
 
-  // Limit history to prevent context overflow
-  const limitedHistory = limitHistoryTurns(session.messages, MAX_HISTORY_TURNS);
-
   // Add user message
-  const userMessage: Message = { role: "user", content: prompt };
-  const messages = [...limitedHistory, userMessage];
+  const userMessage: Message = params.attachments?.length
+    ? { role: "user", content: [{ type: "text", text: prompt }, ...params.attachments] }
+    : { role: "user", content: prompt };
+
+  // History is summarized once it outgrows what is left of the budget
+  // after the system prompt and the new prompt
+  let history = session.messages;
+  const historyBudget = Math.max(
+    0,
+    (params.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET) -
+      estimateTextTokens(systemPrompt) -
+      estimateTokens([userMessage])
+  );
+
+  // Shared across attempts so a fallback model continues the partial conversation
+  const state: TurnState = {
+    newMessages: [],
+    usage: { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 },
+    iterations: 0,
+    response: "",
+    finished: false,
+    partialText: "",
+  };
 
-  // Create run context
-  const ctx: RunContext = {
-    client,
-    tools,
-    toolContext: {
-      workspaceDir,
-      abortSignal,
-    },
-    sessionId,
-    model,
-    provider,
-    onPartialReply,
-    onToolExecution,
-    onToolResult,
+  let rotations = 0;
+  let budgetChecked = false;
+  let overflowCompacted = false;
+
+  // Add this run's spend to the session's running totals
+  const recordSessionSpend = () => {
+    const totals = (session.metadata.usage ??= { inputTokens: 0, outputTokens: 0 });
+    addUsage(totals, state.usage);
+    if (state.costUsd !== undefined) {
+      session.metadata.costUsd = (session.metadata.costUsd ?? 0) + state.costUsd;
+    }
   };
 
-  try {
-    // Run agent turn (dispatch to appropriate provider)
-    const result = provider === "openai"
-      ? await runOpenAIAgentTurn(ctx, systemPrompt, messages)
-      : await runAnthropicAgentTurn(ctx, systemPrompt, messages);
-
-    // Update session with new messages
-    session.messages = [
-      ...limitedHistory,
-      userMessage,
-      ...result.newMessages,
-    ];
-    session.metadata.updatedAt = new Date().toISOString();
-    session.metadata.model = model;
+  // Persist whatever the run produced before it was cancelled or ran out
+  // of budget; every tool call already has a result, so it can be resumed
+  const saveStoppedRun = async (
+    error: NonNullable<AgentRunResult["error"]>,
+    attempt: { provider: ModelProvider; model: string }
+  ): Promise<AgentRunResult> => {
+    const partial = [userMessage, ...state.newMessages];
+    if (state.partialText) {
+      partial.push({ role: "assistant", content: state.partialText, cancelled: true });
+    } else if (error.kind === "cancelled") {
+      partial[partial.length - 1] = { ...partial[partial.length - 1], cancelled: true };
+    }
 
-    // Save session
+    session.messages = [...history, ...partial];
+    session.metadata.updatedAt = new Date().toISOString();
+    recordSessionSpend();
     await saveSession(sessionFile, session);
 
+    const lastReply = [...state.newMessages].reverse().find((m) => m.role === "assistant");
+
     return {
-      response: result.response,
+      response: state.partialText || state.response || (lastReply ? getMessageText(lastReply) : ""),
       messages: session.messages,
-      usage: result.usage,
+      usage: state.usage,
+      costUsd: state.costUsd,
+      provider: attempt.provider.name,
+      model: attempt.model,
+      error,
     };
-  } catch (error) {
-    const err = error as Error;
+  };
 
-    // Check for specific error types
-    if (err.message.includes("context_length_exceeded") || err.message.includes("too many tokens")) {
-      return {
-        response: "",
-        messages: session.messages,
-        error: {
-          kind: "context_overflow",
-          message: "Context length exceeded. Try starting a new session or using a smaller prompt.",
-        },
-      };
+  // Summarize older history with the attempt's model; returns true if anything changed
+  const compact = async (ctx: RunContext, force: boolean): Promise<boolean> => {
+    const result = await compactHistory(history, {
+      budgetTokens: historyBudget,
+      keepTokens: force ? Math.floor(historyBudget / 4) : undefined,
+      force,
+      summarize: (transcript) => summarizeHistory(ctx, transcript, state),
+    });
+    history = result.messages;
+    if (result.compacted || !force) {
+      return result.compacted;
     }
 
-    if (err.message.includes("rate_limit") || err.message.includes("ThrottlingException")) {
-      return {
-        response: "",
-        messages: session.messages,
-        error: {
-          kind: "rate_limit",
-          message: "Rate limit exceeded. Please wait before trying again.",
-        },
-      };
-    }
+    // The overflow may come from this run's own tool results
+    const trimmed = truncateToolResults(state.newMessages);
+    state.newMessages = trimmed.messages;
+    return trimmed.truncated;
+  };
+
+  for (let i = 0; i < attempts.length; i++) {
+    const { provider, model } = attempts[i];
+
+    // Auth profiles, when configured for this provider, take precedence
+    // over the single API key
+    const lease = authProfiles?.acquire(provider.name);
+    const canRotateAuth = () =>
+      !!lease && (authProfiles?.available(provider.name) ?? 0) > 1;
+
+    // Create run context
+    const ctx: RunContext = {
+      client: provider.createClient({
+        apiKey: lease?.apiKey ?? attempts[i].apiKey,
+        bedrockConfig: lease?.bedrockConfig ?? bedrockConfig,
+      }),
+      provider,
+      tools,
+      toolContext: {
+        workspaceDir,
+        sessionId,
+        roots: params.roots,
+        exec: params.exec,
+        processes,
+        abortSignal,
+      },
+      sessionId,
+      model,
+      retryPolicy,
+      toolConcurrency: params.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY,
+      promptCaching: params.promptCaching ?? true,
+      thinking: params.thinking,
+      budget,
+      pricing: params.pricing,
+      permissions,
+      policy: params.policy,
+      canRotateAuth,
+      emit,
+    };
+
+    try {
+      if (!budgetChecked) {
+        budgetChecked = true;
+        await compact(ctx, false);
+      }
+
+      // A fallback model picks up where the failed one stopped: the tool
+      // loop is skipped if only the structured output step failed
+      if (!state.finished) {
+        await runAgentTurn(ctx, systemPrompt, [...history, userMessage], state);
+      }
+
+      let output: unknown;
+      let outputError: AgentRunResult["error"];
+      if (responseSchema) {
+        const extracted = await extractStructuredOutput(
+          ctx,
+          systemPrompt,
+          [...history, userMessage, ...state.newMessages],
+          responseSchema,
+          state
+        );
+        if ("error" in extracted) {
+          outputError = { kind: "invalid_output", message: extracted.error };
+        } else {
+          output = extracted.output;
+        }
+      }
+
+      if (lease) {
+        authProfiles?.reportSuccess(lease.name);
+      }
+
+      // Update session with new messages
+      session.messages = [
+        ...history,
+        userMessage,
+        ...state.newMessages,
+      ];
+      session.metadata.updatedAt = new Date().toISOString();
+      session.metadata.model = model;
+      session.metadata.provider = provider.name;
+      recordSessionSpend();
+
+      // Save session
+      await saveSession(sessionFile, session);
 
-    if (err.message.includes("AccessDeniedException") || err.message.includes("UnauthorizedException")) {
       return {
-        response: "",
+        response: state.response,
         messages: session.messages,
-        error: {
-          kind: "auth_error",
-          message: `Authentication failed for ${provider}. Check your credentials.`,
-        },
+        usage: state.usage,
+        costUsd: state.costUsd,
+        output,
+        provider: provider.name,
+        model,
+        error: outputError,
       };
-    }
+    } catch (error) {
+      if (error instanceof RunLimitError) {
+        return saveStoppedRun({ kind: error.kind, message: error.message }, attempts[i]);
+      }
+
+      if (deadlineSignal.aborted) {
+        return saveStoppedRun(
+          {
+            kind: "budget_exceeded",
+            message: `Time budget exceeded: stopped after ${budget.maxDurationMs}ms.`,
+          },
+          attempts[i]
+        );
+      }
+
+      if (abortSignal?.aborted) {
+        return saveStoppedRun({ kind: "cancelled", message: "Run was cancelled." }, attempts[i]);
+      }
+
+      const err = error as Error;
+      const kind = provider.classifyError(error) ?? "unknown";
+      let message = describeError(kind, err, provider.name, model);
+
+      // Compact harder once and try the same model again; if there is
+      // nothing left to compact, say so instead of claiming it was done
+      if (kind === "context_overflow" && !overflowCompacted) {
+        overflowCompacted = true;
+        const compacted = await compact(ctx, true).catch(() => false);
+        if (compacted) {
+          i--;
+          continue;
+        }
+        message =
+          "Context length exceeded and the history cannot be compacted: the current turn alone is too large. Try starting a new session or using a smaller prompt.";
+      }
+
+      // Cool down the key and try the same model with the next profile
+      if (lease && authProfiles && (kind === "rate_limit" || kind === "auth_error")) {
+        const rotate = canRotateAuth();
+        authProfiles.reportFailure(lease.name, kind, provider.getRetryAfterMs?.(error));
+        if (rotate && rotations < MAX_AUTH_ROTATIONS) {
+          rotations++;
+          i--;
+          continue;
+        }
+      }
+
+      // Move on to the next model in the chain for retryable failures
+      const next = attempts[i + 1];
+      if (next && FALLBACK_ERROR_KINDS.has(kind)) {
+        emit({
+          type: "fallback",
+          from: { provider: provider.name, model },
+          to: { provider: next.provider.name, model: next.model },
+          error: { kind, message },
+        });
+        continue;
+      }
+
+      // The conversation is left as it was, but tokens spent on the
+      // failed attempts still count toward the session totals
+      if (totalTokens(state.usage) > 0) {
+        recordSessionSpend();
+        await saveSession(sessionFile, session);
+      }
 
-    if (err.message.includes("ResourceNotFoundException") || err.message.includes("model not found")) {
       return {
         response: "",
         messages: session.messages,
-        error: {
-          kind: "model_not_found",
-          message: `Model "${model}" not found or not enabled for ${provider}.`,
-        },
+        usage: state.usage,
+        costUsd: state.costUsd,
+        provider: provider.name,
+        model,
+        error: { kind, message },
       };
     }
-
-    return {
-      response: "",
-      messages: session.messages,
-      error: {
-        kind: "unknown",
-        message: err.message,
-      },
-    };
   }
-}
 
-/**
- * Get list of available Bedrock model shortcuts
- */
-export function getBedrockModelShortcuts(): Record<string, string> {
-  return { ...BEDROCK_MODEL_MAP };
+  // Unreachable: the last attempt always returns
+  throw new Error("No model attempts were made");
 }
@@ -0,0 +1,211 @@
+/**
+ * Auth Profiles - Multiple API keys with rotation and cooldown
+ *
+ * Inspired by OpenClaw's auth profile rotation
+ *
+ * Key concepts:
+ * - Named profiles per provider, loaded from .mini-owl/auth.json or config
+ * - Round-robin or least-recently-throttled selection
+ * - Keys that hit a rate limit or auth error cool down before reuse
+ * - Per-profile health counters for daemon stats
+ *
+ * Example .mini-owl/auth.json:
+ * {
+ *   "strategy": "round-robin",
+ *   "profiles": [
+ *     { "name": "team-a", "provider": "anthropic", "apiKeyEnv": "ANTHROPIC_KEY_A" },
+ *     { "name": "team-b", "provider": "anthropic", "apiKey": "sk-ant-..." }
+ *   ]
+ * }
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  AgentErrorKind,
+  AuthProfile,
+  AuthProfileHealth,
+  AuthProfilesConfig,
+  BedrockConfig,
+  Provider,
+} from "../types.js";
+
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60_000;
+const DEFAULT_AUTH_COOLDOWN_MS = 10 * 60_000;
+
+// A profile selected for one model attempt
+export interface AuthProfileLease {
+  name: string;
+  apiKey?: string;
+  bedrockConfig?: BedrockConfig;
+}
+
+interface ProfileState {
+  profile: AuthProfile;
+  cooldownUntil: number;
+  lastUsedAt?: number;
+  lastThrottledAt?: number;
+  lastFailure?: { kind: AgentErrorKind; at: number };
+  successes: number;
+  failures: number;
+}
+
+/**
+ * Load auth profiles from <workspace>/.mini-owl/auth.json
+ *
+ * @returns The parsed config, or null if the file does not exist
+ */
+export async function loadAuthProfiles(
+  workspaceDir: string
+): Promise<AuthProfilesConfig | null> {
+  const authFile = path.join(workspaceDir, ".mini-owl", "auth.json");
+
+  try {
+    const content = await fs.readFile(authFile, "utf-8");
+    const config = JSON.parse(content) as AuthProfilesConfig;
+
+    if (!Array.isArray(config.profiles)) {
+      throw new Error(`${authFile}: "profiles" must be an array`);
+    }
+
+    return config;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Pool of auth profiles shared by all runs of a daemon
+ */
+export class AuthProfilePool {
+  private states: ProfileState[];
+  private strategy: NonNullable<AuthProfilesConfig["strategy"]>;
+  private rateLimitCooldownMs: number;
+  private authCooldownMs: number;
+  private cursors = new Map<string, number>();
+
+  constructor(config: AuthProfilesConfig) {
+    this.strategy = config.strategy ?? "round-robin";
+    this.rateLimitCooldownMs = config.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+    this.authCooldownMs = config.authCooldownMs ?? DEFAULT_AUTH_COOLDOWN_MS;
+    this.states = config.profiles.map((profile) => ({
+      profile,
+      cooldownUntil: 0,
+      successes: 0,
+      failures: 0,
+    }));
+  }
+
+  /**
+   * Check whether any profiles are configured for a provider
+   */
+  has(provider: Provider): boolean {
+    return this.states.some((s) => s.profile.provider === provider);
+  }
+
+  /**
+   * Count profiles for a provider that are not cooling down
+   */
+  available(provider: Provider): number {
+    const now = Date.now();
+    return this.states.filter(
+      (s) => s.profile.provider === provider && s.cooldownUntil <= now
+    ).length;
+  }
+
+  /**
+   * Pick a profile for the provider
+   *
+   * If every profile is cooling down, the one that recovers first is used
+   * rather than failing the run outright.
+   */
+  acquire(provider: Provider): AuthProfileLease | undefined {
+    const candidates = this.states.filter((s) => s.profile.provider === provider);
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const ready = candidates.filter((s) => s.cooldownUntil <= now);
+
+    let selected: ProfileState;
+    if (ready.length === 0) {
+      selected = candidates.reduce((a, b) => (b.cooldownUntil < a.cooldownUntil ? b : a));
+    } else if (this.strategy === "least-recently-throttled") {
+      selected = ready.reduce((a, b) =>
+        (b.lastThrottledAt ?? 0) < (a.lastThrottledAt ?? 0) ? b : a
+      );
+    } else {
+      const cursor = this.cursors.get(provider) ?? 0;
+      selected = ready[cursor % ready.length];
+      this.cursors.set(provider, cursor + 1);
+    }
+
+    selected.lastUsedAt = now;
+
+    const { profile } = selected;
+    return {
+      name: profile.name,
+      apiKey: profile.apiKey ?? (profile.apiKeyEnv ? process.env[profile.apiKeyEnv] : undefined),
+      bedrockConfig: profile.bedrockConfig,
+    };
+  }
+
+  /**
+   * Record a successful call
+   */
+  reportSuccess(name: string): void {
+    const state = this.find(name);
+    if (state) {
+      state.successes++;
+    }
+  }
+
+  /**
+   * Record a failed call, putting the profile on cooldown for
+   * rate limit and auth errors
+   *
+   * @param retryAfterMs - Server-requested delay, used as the cooldown if longer
+   */
+  reportFailure(name: string, kind: AgentErrorKind, retryAfterMs?: number): void {
+    const state = this.find(name);
+    if (!state) return;
+
+    const now = Date.now();
+    state.failures++;
+    state.lastFailure = { kind, at: now };
+
+    if (kind === "rate_limit") {
+      state.lastThrottledAt = now;
+      state.cooldownUntil = now + Math.max(this.rateLimitCooldownMs, retryAfterMs ?? 0);
+    } else if (kind === "auth_error") {
+      state.cooldownUntil = now + this.authCooldownMs;
+    }
+  }
+
+  /**
+   * Per-profile health (API keys are never included)
+   */
+  getHealth(): AuthProfileHealth[] {
+    const now = Date.now();
+    return this.states.map((s) => ({
+      name: s.profile.name,
+      provider: s.profile.provider,
+      status: s.cooldownUntil > now ? "cooldown" : "ready",
+      cooldownUntil: s.cooldownUntil > now ? new Date(s.cooldownUntil) : undefined,
+      lastUsedAt: s.lastUsedAt ? new Date(s.lastUsedAt) : undefined,
+      lastFailure: s.lastFailure
+        ? { kind: s.lastFailure.kind, at: new Date(s.lastFailure.at) }
+        : undefined,
+      successes: s.successes,
+      failures: s.failures,
+    }));
+  }
+
+  private find(name: string): ProfileState | undefined {
+    return this.states.find((s) => s.profile.name === name);
+  }
+}
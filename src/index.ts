@@ -6,7 +6,14 @@
 
 // Main exports
 export { AgentDaemon, createDaemon, type DaemonConfig, type RunOptions } from "./agent/daemon.js";
-export { runAgent } from "./agent/runner.js";
+export { runAgent, getBedrockModelShortcuts } from "./agent/runner.js";
+export { DEFAULT_RETRY_POLICY, computeRetryDelay } from "./agent/retry.js";
+export {
+  loadToolPolicy,
+  evaluatePolicy,
+  resolvePolicyTarget,
+  createPathFilter,
+} from "./agent/policy.js";
 export { enqueueInLane, enqueueInSessionLane, getLaneStats } from "./agent/lanes.js";
 
 export {
@@ -18,7 +25,48 @@ export {
   type SessionData,
 } from "./session/session-manager.js";
 
+export {
+  getContentBlocks,
+  getMessageText,
+  getToolCalls,
+  getToolResults,
+  createAssistantMessage,
+  createToolResultMessage,
+  normalizeMessage,
+} from "./session/messages.js";
+
+export {
+  compactHistory,
+  estimateTokens,
+  findCompactionSplit,
+} from "./session/compaction.js";
+
+export { AuthProfilePool, loadAuthProfiles } from "./auth/profiles.js";
+
+export {
+  registerProvider,
+  unregisterProvider,
+  getProvider,
+  listProviders,
+  resolveProvider,
+  anthropicProvider,
+  openaiProvider,
+  bedrockProvider,
+} from "./providers/index.js";
+
+export { MODEL_PRICING, getModelPricing, estimateCost, addUsage } from "./providers/pricing.js";
+
 export { buildSystemPrompt, loadContextFiles } from "./prompts/system-prompt.js";
+export { loadImage, detectImageType, MAX_IMAGE_BYTES } from "./utils/images.js";
+export { checkJsonSchema, validateJsonSchema } from "./utils/json-schema.js";
+export {
+  walkFiles,
+  parseIgnoreFile,
+  isIgnored,
+  type IgnoreRule,
+  type WalkOptions,
+  type WalkEntry,
+} from "./utils/ignore.js";
 
 export {
   allTools,
@@ -30,16 +78,44 @@ export {
   execTool,
   lsTool,
   grepTool,
+  processListTool,
+  processPollTool,
+  processInputTool,
+  processKillTool,
 } from "./tools/index.js";
 
+export { ProcessRegistry, type BackgroundProcessInfo } from "./tools/background.js";
+export { closeShellSession, closeAllShellSessions } from "./tools/shell-session.js";
+
+export {
+  registerExecBackend,
+  resolveExecBackend,
+  hostExecBackend,
+  sandboxExecBackend,
+  DEFAULT_ENV_ALLOWLIST,
+} from "./tools/exec-backends.js";
+
 export type {
   Message,
   MessageRole,
+  ContentBlock,
+  TextBlock,
+  ImageBlock,
+  ImageMediaType,
+  DocumentBlock,
+  ToolUseBlock,
+  ToolResultBlock,
   Tool,
   ToolCall,
   ToolResult,
   ToolParameter,
+  JsonSchema,
   ToolContext,
+  WorkspaceRoot,
+  ExecConfig,
+  ExecBackend,
+  ExecRequest,
+  ExecSpawnSpec,
   ToolExecutionResult,
   SessionConfig,
   AgentRunParams,
@@ -48,7 +124,35 @@ export type {
   AgentEventHandler,
   SystemPromptParams,
   Provider,
+  BuiltinProvider,
   BedrockConfig,
+  TokenUsage,
+  ModelPricing,
+  RunBudget,
+  SpendSummary,
+  PermissionMode,
+  ApprovalRequest,
+  ApprovalDecision,
+  ApprovalHandler,
+  ToolPolicy,
+  ToolPolicyRule,
+  ToolPolicyRules,
+  PolicyDecision,
+  PolicyTarget,
+  AgentErrorKind,
+  ModelProvider,
+  ModelRef,
+  FallbackInfo,
+  RetryPolicy,
+  RetryInfo,
+  ThinkingBlock,
+  ThinkingConfig,
+  AuthProfile,
+  AuthProfilesConfig,
+  AuthProfileHealth,
+  ProviderClientOptions,
+  ProviderTurnParams,
+  ProviderTurnResult,
 } from "./types.js";
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -321,6 +425,10 @@ function printToolExecution(toolName: string, _args?: Record<string, unknown>) {
     exec: '⚡',
     ls: '📁',
     grep: '🔍',
+    process_list: '⚙️',
+    process_poll: '⚙️',
+    process_input: '⚙️',
+    process_kill: '⚙️',
   };
   const colors: Record<string, string> = {
     read: c.brightBlue,
@@ -329,6 +437,10 @@ function printToolExecution(toolName: string, _args?: Record<string, unknown>) {
     exec: c.brightMagenta,
     ls: c.brightCyan,
     grep: c.brightRed,
+    process_list: c.magenta,
+    process_poll: c.magenta,
+    process_input: c.magenta,
+    process_kill: c.magenta,
   };
 
   const icon = icons[toolName] || '🔧';
@@ -341,7 +453,7 @@ function printToolResult(toolName: string, result: string) {
   const maxLen = 80;
   const firstLine = result.split('\n')[0];
   const preview = firstLine.length > maxLen ? firstLine.slice(0, maxLen) + '...' : firstLine;
-  const isError = result.toLowerCase().includes('error');
+  const isError = result.toLowerCase().includes('error') || /^(Permission|Policy) denied: /.test(result);
 
   if (isError) {
     console.log(`  ${c.dim}│  ${c.red}✗${c.reset} ${c.dim}${preview}${c.reset}`);
@@ -350,6 +462,159 @@ function printToolResult(toolName: string, result: string) {
   }
 }
 
+// Lines of a running tool's output kept on screen under its header
+const LIVE_TAIL_LINES = 5;
+
+/**
+ * Show the last few lines of a running tool's output, redrawn in place
+ *
+ * Only on a terminal; elsewhere the output waits for the tool result.
+ */
+function createLiveTail() {
+  let lines: string[] = [];
+  let drawn = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  // Redraw at most every 50ms so chatty commands don't flood the terminal
+  const draw = () => {
+    timer = undefined;
+    const width = Math.max(20, (process.stdout.columns ?? 80) - 6);
+    let out = drawn > 0 ? `${ESC}[${drawn}F` : '';
+    for (const line of lines) {
+      out += `${ESC}[2K  ${c.dim}│  ${line.slice(0, width)}${c.reset}\n`;
+    }
+    process.stdout.write(out);
+    drawn = lines.length;
+  };
+
+  return {
+    push(chunk: string) {
+      if (!process.stdout.isTTY) return;
+      // Keep what a progress bar last drew, without colors or control characters
+      const line = (chunk.replace(/\r?\n$/, '').split('\r').filter(Boolean).pop() ?? '')
+        .replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '')
+        .replace(/\t/g, '  ')
+        .replace(/[\x00-\x1f\x7f]/g, '');
+      lines = [...lines, line].slice(-LIVE_TAIL_LINES);
+      timer ??= setTimeout(draw, 50);
+    },
+    clear() {
+      clearTimeout(timer);
+      timer = undefined;
+      if (drawn > 0) {
+        process.stdout.write(`${ESC}[${drawn}F${ESC}[J`);
+      }
+      lines = [];
+      drawn = 0;
+    },
+  };
+}
+
+function printRetry(info: { attempt: number; maxRetries: number; delayMs: number; error: { kind: string } }) {
+  const seconds = Math.max(1, Math.round(info.delayMs / 1000));
+  console.log(`\n  ${c.dim}│  ${c.yellow}↻${c.reset} ${c.dim}${info.error.kind.replace('_', ' ')}, retrying in ${seconds}s (${info.attempt}/${info.maxRetries})${c.reset}`);
+}
+
+function formatUsage(
+  usage?: { inputTokens: number; outputTokens: number; cacheReadTokens?: number; cacheWriteTokens?: number },
+  costUsd?: number
+): string {
+  const tokens = usage
+    ? usage.inputTokens + usage.outputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0)
+    : 0;
+  const cost = costUsd !== undefined ? ` ${c.gray}│${c.dim} $${costUsd.toFixed(4)}` : '';
+  return `${tokens.toLocaleString()} tokens${cost}`;
+}
+
+/**
+ * Turn `@path/to/image.png` references in a prompt into image attachments
+ *
+ * The reference stays in the prompt (without the @) so the model knows
+ * which file each image came from.
+ */
+async function resolveImageReferences(prompt: string, workspaceDir: string) {
+  const path = await import('node:path');
+  const { hasImageExtension, loadImage } = await import('./utils/images.js');
+
+  const pattern = /(^|\s)@(\S+)/g;
+  const refs = [...prompt.matchAll(pattern)].map((m) => m[2]).filter(hasImageExtension);
+
+  const attachments = [];
+  for (const ref of refs) {
+    const image = await loadImage(path.resolve(workspaceDir, ref));
+    console.log(`  ${c.dim}📎 ${ref} (${image.mediaType})${c.reset}`);
+    attachments.push(image);
+  }
+
+  return {
+    prompt: prompt.replace(pattern, (match, space: string, ref: string) =>
+      hasImageExtension(ref) ? `${space}${ref}` : match
+    ),
+    attachments,
+  };
+}
+
+const PERMISSION_MODES = ['default', 'acceptEdits', 'plan', 'bypass'] as const;
+type CliPermissionMode = (typeof PERMISSION_MODES)[number];
+
+function parsePermissionMode(value: string): CliPermissionMode | undefined {
+  return PERMISSION_MODES.find((mode) => mode.toLowerCase() === value.toLowerCase());
+}
+
+function printApprovalPreview(preview: string) {
+  const maxLines = 40;
+  const lines = preview.split('\n');
+  for (const line of lines.slice(0, maxLines)) {
+    const color = line.startsWith('@@')
+      ? c.cyan
+      : line.startsWith('+') && !line.startsWith('+++')
+        ? c.green
+        : line.startsWith('-') && !line.startsWith('---')
+          ? c.red
+          : c.dim;
+    console.log(`  ${c.dim}│${c.reset}    ${color}${line}${c.reset}`);
+  }
+  if (lines.length > maxLines) {
+    console.log(`  ${c.dim}│    ... ${lines.length - maxLines} more lines${c.reset}`);
+  }
+}
+
+/**
+ * Build an approval handler that asks on the terminal: y/n/always
+ *
+ * Anything typed after "n" is passed to the model as the reason, e.g.
+ * "n use pnpm instead".
+ */
+function createApprovalPrompt(ask: (query: string, signal?: AbortSignal) => Promise<string>) {
+  return async (request: {
+    toolName: string;
+    preview: string;
+    abortSignal?: AbortSignal;
+  }): Promise<{ behavior: 'allow' | 'allow_session' } | { behavior: 'deny'; reason?: string }> => {
+    printApprovalPreview(request.preview);
+
+    while (true) {
+      const answer = (
+        await ask(
+          `  ${c.dim}│${c.reset}  ${c.yellow}?${c.reset} Allow ${c.bold}${request.toolName}${c.reset}? ${c.dim}[y]es / [n]o / [a]lways${c.reset} `,
+          request.abortSignal
+        )
+      ).trim();
+
+      if (/^(y|yes)$/i.test(answer)) {
+        return { behavior: 'allow' };
+      }
+      if (/^(a|always)$/i.test(answer)) {
+        return { behavior: 'allow_session' };
+      }
+      const denied = answer.match(/^(?:n|no)(?:[\s,:]+(.*))?$/is);
+      if (denied) {
+        return { behavior: 'deny', reason: denied[1]?.trim() || undefined };
+      }
+    }
+  };
+}
+
 function printHelp() {
   console.log(MAIN_LOGO);
   console.log(`
@@ -363,6 +628,10 @@ function printHelp() {
     ${c.yellow}--model${c.reset} ${c.dim}<name>${c.reset}      Model to use
     ${c.yellow}--provider${c.reset} ${c.dim}<name>${c.reset}   Provider: anthropic, openai, or bedrock ${c.dim}(auto-detect)${c.reset}
     ${c.yellow}--region${c.reset} ${c.dim}<region>${c.reset}   AWS region for Bedrock ${c.dim}(default: AWS_REGION env)${c.reset}
+    ${c.yellow}--thinking${c.reset} ${c.dim}<n>${c.reset}      Extended thinking: token budget or low/medium/high
+    ${c.yellow}--permission-mode${c.reset} ${c.dim}<m>${c.reset} default, acceptEdits, plan ${c.dim}(read-only)${c.reset} or bypass
+    ${c.yellow}--sandbox${c.reset}           Run commands in a Linux sandbox ${c.dim}(no network, read-only outside the workspace)${c.reset}
+    ${c.yellow}--persistent-shell${c.reset}  Keep cd and exported variables between commands
     ${c.yellow}--interactive${c.reset}       Start interactive REPL mode
     ${c.yellow}--quick${c.reset}             Skip startup animation
     ${c.yellow}--help${c.reset}, ${c.yellow}-h${c.reset}          Show this help message
@@ -399,18 +668,25 @@ function printHelp() {
     ${c.dim}# Single prompt (auto-detects provider)${c.reset}
     ${c.cyan}$${c.reset} mini-owl "List all files"
 
+    ${c.dim}# Attach a screenshot with @path${c.reset}
+    ${c.cyan}$${c.reset} mini-owl "Why is the header misaligned? @screenshots/header.png"
+
     ${c.dim}# Quick start (skip animation)${c.reset}
     ${c.cyan}$${c.reset} mini-owl --interactive --quick
 
     ${c.dim}# With custom session${c.reset}
     ${c.cyan}$${c.reset} mini-owl --session my-project "Read the README.md"
 
+    ${c.dim}# Let the agent edit files without asking (commands still ask)${c.reset}
+    ${c.cyan}$${c.reset} mini-owl --permission-mode acceptEdits --interactive
+
   ${c.bold}${c.brightWhite}INTERACTIVE COMMANDS${c.reset}
     ${c.yellow}/help${c.reset}       Show commands
     ${c.yellow}/exit${c.reset}       Exit mini-owl
     ${c.yellow}/clear${c.reset}      Clear screen
     ${c.yellow}/session${c.reset}    Show session info
     ${c.yellow}/stats${c.reset}      Show daemon stats
+    ${c.yellow}/mode${c.reset}       Show or set the permission mode
 
   ${c.bold}${c.brightWhite}TOOLS${c.reset}
     📖 ${c.brightBlue}read${c.reset}    Read file contents
@@ -463,6 +739,10 @@ async function main() {
   let model: string | undefined;
   let provider: Provider | undefined;
   let region: string | undefined;
+  let thinking: { budgetTokens?: number; effort?: 'low' | 'medium' | 'high' } | undefined;
+  let permissionMode: CliPermissionMode = 'default';
+  let sandbox = false;
+  let persistentShell = false;
   let interactive = false;
   let quick = false;
   const promptParts: string[] = [];
@@ -486,6 +766,33 @@ async function main() {
       }
     } else if (args[i] === '--region' && args[i + 1]) {
       region = args[++i];
+    } else if (args[i] === '--thinking' && args[i + 1]) {
+      const value = args[++i].toLowerCase();
+      if (value === 'low' || value === 'medium' || value === 'high') {
+        thinking = { effort: value };
+      } else if (/^\d+$/.test(value)) {
+        thinking = { budgetTokens: Number(value) };
+      } else {
+        console.log(COMPACT_LOGO);
+        console.error(`  ${c.red}✗${c.reset} ${c.bold}Invalid thinking setting:${c.reset} ${value}`);
+        console.error(`    Use a token budget or ${c.yellow}low${c.reset}, ${c.yellow}medium${c.reset}, ${c.yellow}high${c.reset}\n`);
+        process.exit(1);
+      }
+    } else if (args[i] === '--permission-mode' && args[i + 1]) {
+      const value = args[++i];
+      const mode = parsePermissionMode(value);
+      if (mode) {
+        permissionMode = mode;
+      } else {
+        console.log(COMPACT_LOGO);
+        console.error(`  ${c.red}✗${c.reset} ${c.bold}Invalid permission mode:${c.reset} ${value}`);
+        console.error(`    Use ${PERMISSION_MODES.map((m) => `${c.yellow}${m}${c.reset}`).join(', ')}\n`);
+        process.exit(1);
+      }
+    } else if (args[i] === '--sandbox') {
+      sandbox = true;
+    } else if (args[i] === '--persistent-shell') {
+      persistentShell = true;
     } else if (args[i] === '--interactive') {
       interactive = true;
     } else if (args[i] === '--quick') {
@@ -510,16 +817,20 @@ async function main() {
     }
   }
 
+  // Keys from .mini-owl/auth.json stand in for the environment variables
+  const { existsSync } = await import('node:fs');
+  const hasAuthProfiles = existsSync(`${workspaceDir}/.mini-owl/auth.json`);
+
   // Check credentials based on provider
   if (provider === 'anthropic') {
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!process.env.ANTHROPIC_API_KEY && !hasAuthProfiles) {
       console.log(COMPACT_LOGO);
       console.error(`  ${c.red}✗${c.reset} ${c.bold}Missing API Key${c.reset}`);
       console.error(`    Set ${c.yellow}ANTHROPIC_API_KEY${c.reset} environment variable\n`);
       process.exit(1);
     }
   } else if (provider === 'openai') {
-    if (!process.env.OPENAI_API_KEY) {
+    if (!process.env.OPENAI_API_KEY && !hasAuthProfiles) {
       console.log(COMPACT_LOGO);
       console.error(`  ${c.red}✗${c.reset} ${c.bold}Missing API Key${c.reset}`);
       console.error(`    Set ${c.yellow}OPENAI_API_KEY${c.reset} environment variable\n`);
@@ -547,6 +858,16 @@ async function main() {
         ? process.env.OPENAI_API_KEY
         : undefined,
     bedrockConfig: provider === 'bedrock' ? { region } : undefined,
+    thinking,
+    exec: { backend: sandbox ? 'sandbox' : 'host', persistentShell },
+  });
+
+  daemon.on('run:retry', printRetry);
+
+  // Exit through process.exit so background processes are stopped on the way out
+  process.on('SIGTERM', async () => {
+    await daemon.shutdown();
+    process.exit(143);
   });
 
   // Display provider info
@@ -570,6 +891,11 @@ async function main() {
       output: process.stdout,
     });
 
+    let running = false;
+    const onApprovalRequest = createApprovalPrompt(
+      (query, signal) => new Promise((resolve) => rl.question(query, { signal }, resolve))
+    );
+
     const askQuestion = () => {
       rl.question(`  ${c.brightGreen}❯${c.reset} `, async (input) => {
         const trimmed = input.trim();
@@ -591,6 +917,7 @@ async function main() {
     ${c.yellow}/session${c.reset}    Show session info
     ${c.yellow}/stats${c.reset}      Show daemon stats
     ${c.yellow}/tools${c.reset}      List available tools
+    ${c.yellow}/mode${c.reset}       Show or set the permission mode
 `);
           askQuestion();
           return;
@@ -613,6 +940,8 @@ async function main() {
   ${c.cyan}│${c.reset}  Workspace: ${c.yellow}${workspaceDir}${c.reset}
   ${c.cyan}│${c.reset}  Model:     ${c.magenta}${model || 'claude-sonnet-4-20250514'}${c.reset}
   ${c.cyan}│${c.reset}  Provider:  ${providerDisplay}
+  ${c.cyan}│${c.reset}  Mode:      ${c.brightWhite}${permissionMode}${c.reset}
+  ${c.cyan}│${c.reset}  Exec:      ${c.brightWhite}${sandbox ? 'sandbox' : 'host'}${persistentShell ? ', persistent shell' : ''}${c.reset}
   ${c.cyan}└──────────────────────────────────────┘${c.reset}
 `);
           askQuestion();
@@ -627,12 +956,27 @@ async function main() {
   ${c.cyan}│${c.reset}  Active Runs:  ${c.brightWhite}${stats.activeRuns}${c.reset}
   ${c.cyan}│${c.reset}  Active Lanes: ${c.brightWhite}${stats.activeLanes}${c.reset}
   ${c.cyan}│${c.reset}  Queued Tasks: ${c.brightWhite}${stats.totalQueuedTasks}${c.reset}
+  ${c.cyan}│${c.reset}  Spend:        ${c.brightWhite}${formatUsage(stats.spend.usage, stats.spend.costUsd)}${c.reset} ${c.dim}(${stats.spend.runs} runs)${c.reset}${stats.authProfiles.map((p) => `
+  ${c.cyan}│${c.reset}  Profile:      ${c.brightWhite}${p.name}${c.reset} ${c.dim}(${p.provider})${c.reset} ${p.status === 'ready' ? c.green : c.yellow}${p.status}${c.reset} ${c.dim}${p.successes} ok / ${p.failures} failed${c.reset}`).join('')}
   ${c.cyan}└──────────────────────────────────────┘${c.reset}
 `);
           askQuestion();
           return;
         }
 
+        if (trimmed === '/mode' || trimmed.startsWith('/mode ')) {
+          const value = trimmed.slice('/mode'.length).trim();
+          const mode = value ? parsePermissionMode(value) : permissionMode;
+          if (mode) {
+            permissionMode = mode;
+            console.log(`\n  ${c.cyan}Permission mode:${c.reset} ${c.brightWhite}${permissionMode}${c.reset}\n`);
+          } else {
+            console.log(`\n  ${c.red}✗${c.reset} Unknown mode ${c.bold}${value}${c.reset}. Use ${PERMISSION_MODES.join(', ')}\n`);
+          }
+          askQuestion();
+          return;
+        }
+
         if (trimmed === '/tools') {
           console.log(`
   ${c.bold}${c.brightWhite}AVAILABLE TOOLS${c.reset}
@@ -653,33 +997,59 @@ async function main() {
           return;
         }
 
-        process.stdout.write(formatAssistantPrefix());
-
         try {
+          const { prompt, attachments } = await resolveImageReferences(trimmed, workspaceDir);
+          process.stdout.write(formatAssistantPrefix());
+
           const startTime = Date.now();
+          const liveTail = createLiveTail();
+          running = true;
 
-          await daemon.run({
+          const result = await daemon.run({
             sessionId,
-            prompt: trimmed,
+            prompt,
+            attachments,
+            permissionMode,
+            onApprovalRequest,
             onPartialReply: (text) => process.stdout.write(text),
+            onThinking: (text) => process.stdout.write(`${c.dim}${c.italic}${text}${c.reset}`),
             onToolExecution: (name, args) => {
               printToolExecution(name, args);
             },
+            onToolProgress: (_name, chunk) => liveTail.push(chunk),
             onToolResult: (name, result) => {
+              liveTail.clear();
               printToolResult(name, result);
             },
           });
 
+          if (result.error?.kind === 'cancelled') {
+            console.log(`\n\n  ${c.yellow}■${c.reset} ${c.dim}Cancelled${c.reset}`);
+          } else if (result.error) {
+            console.error(`\n\n  ${c.red}✗ Error:${c.reset} ${result.error.message}`);
+          }
+
           const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-          console.log(`\n\n  ${c.dim}─ ${elapsed}s ${c.gray}│${c.dim} tokens used${c.reset}\n`);
+          console.log(`\n\n  ${c.dim}─ ${elapsed}s ${c.gray}│${c.dim} ${formatUsage(result.usage, result.costUsd)}${c.reset}\n`);
         } catch (error) {
           console.error(`\n\n  ${c.red}✗ Error:${c.reset} ${(error as Error).message}\n`);
+        } finally {
+          running = false;
         }
 
         askQuestion();
       });
     };
 
+    // Ctrl+C cancels the active run; at the prompt it exits
+    rl.on('SIGINT', () => {
+      if (running) {
+        daemon.cancelRun(sessionId);
+      } else {
+        rl.close();
+      }
+    });
+
     // Handle Ctrl+C gracefully
     rl.on('close', () => {
       printGoodbye();
@@ -705,28 +1075,69 @@ async function main() {
     console.log(`  ${c.cyan}Provider:${c.reset}  ${providerDisplay}`);
     console.log(`  ${c.cyan}Workspace:${c.reset} ${c.yellow}${workspaceDir}${c.reset}`);
     console.log(`  ${c.cyan}Prompt:${c.reset}    ${c.white}${prompt}${c.reset}`);
-    console.log(`\n  ${c.dim}${'─'.repeat(60)}${c.reset}`);
-    process.stdout.write(formatAssistantPrefix());
+
+    // Without a terminal there is nobody to ask, so calls run unprompted
+    const onApprovalRequest = process.stdin.isTTY
+      ? createApprovalPrompt((query, signal) => new Promise((resolve) => {
+          const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+          signal?.addEventListener('abort', () => rl.close(), { once: true });
+          rl.question(query, { signal }, (answer) => {
+            rl.close();
+            resolve(answer);
+          });
+        }))
+      : undefined;
+
+    // Ctrl+C cancels the run; without a handler Node would die on the signal
+    // and leave background processes and shells running
+    process.on('SIGINT', async () => {
+      await daemon.shutdown();
+      process.exit(130);
+    });
 
     try {
+      const { prompt: text, attachments } = await resolveImageReferences(prompt, workspaceDir);
+      console.log(`\n  ${c.dim}${'─'.repeat(60)}${c.reset}`);
+      process.stdout.write(formatAssistantPrefix());
+
       const startTime = Date.now();
+      const liveTail = createLiveTail();
 
-      await daemon.run({
+      const result = await daemon.run({
         sessionId,
-        prompt,
+        prompt: text,
+        attachments,
+        permissionMode,
+        onApprovalRequest,
         onPartialReply: (text) => process.stdout.write(text),
+        onThinking: (text) => process.stdout.write(`${c.dim}${c.italic}${text}${c.reset}`),
         onToolExecution: (name, args) => {
           printToolExecution(name, args);
         },
+        onToolProgress: (_name, chunk) => liveTail.push(chunk),
         onToolResult: (name, result) => {
+          liveTail.clear();
           printToolResult(name, result);
         },
       });
 
+      if (result.error?.kind === 'cancelled') {
+        console.log(`\n\n  ${c.yellow}■${c.reset} ${c.dim}Cancelled${c.reset}`);
+      } else if (result.error) {
+        console.error(`\n\n  ${c.red}✗ Error:${c.reset} ${result.error.message}`);
+      }
+
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`\n\n  ${c.dim}─ Completed in ${elapsed}s${c.reset}\n`);
+      const status = result.error ? 'Stopped after' : 'Completed in';
+      console.log(`\n\n  ${c.dim}─ ${status} ${elapsed}s ${c.gray}│${c.dim} ${formatUsage(result.usage, result.costUsd)}${c.reset}\n`);
+
+      // A persistent shell would keep the process alive, so stop it and exit.
+      // Scripts can tell a run that did not finish from one that did
+      await daemon.shutdown();
+      process.exit(result.error ? (result.error.kind === 'cancelled' ? 130 : 1) : 0);
     } catch (error) {
       console.error(`\n\n  ${c.red}✗ Error:${c.reset} ${(error as Error).message}\n`);
+      await daemon.shutdown();
       process.exit(1);
     }
   }
@@ -0,0 +1,270 @@
+/**
+ * Anthropic Provider - Direct Anthropic Messages API
+ *
+ * The message conversion and streaming helpers are shared with the
+ * Bedrock provider, which speaks the same Messages API.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type AnthropicBedrock from "@anthropic-ai/bedrock-sdk";
+import type {
+  ContentBlock,
+  ImageBlock,
+  Message,
+  ModelProvider,
+  ProviderTurnParams,
+  ProviderTurnResult,
+  ThinkingBlock,
+  ToolCall,
+} from "../types.js";
+import { toAnthropicTools } from "../tools/index.js";
+import { classifyError, getRetryAfterMs } from "./errors.js";
+
+export type AnthropicClient = Anthropic | AnthropicBedrock;
+
+/**
+ * Convert one content block to an Anthropic content block
+ *
+ * Empty text blocks are rejected by the API and are dropped.
+ */
+function toAnthropicBlock(
+  block: ContentBlock
+): Anthropic.Messages.ContentBlockParam | undefined {
+  switch (block.type) {
+    case "text":
+      return block.text ? { type: "text", text: block.text } : undefined;
+    case "image":
+      return toAnthropicImage(block);
+    case "document":
+      return {
+        type: "document",
+        source:
+          block.mediaType === "application/pdf"
+            ? { type: "base64", media_type: "application/pdf", data: block.data }
+            : { type: "text", media_type: "text/plain", data: block.data },
+        title: block.title,
+      };
+    case "thinking":
+    case "redacted_thinking":
+      // Replayed unchanged, signature included
+      return block;
+    case "tool_use":
+      return { type: "tool_use", id: block.id, name: block.name, input: block.arguments };
+    case "tool_result":
+      return {
+        type: "tool_result",
+        tool_use_id: block.toolCallId,
+        content:
+          typeof block.content === "string"
+            ? block.content
+            : block.content.map((part) =>
+                part.type === "image" ? toAnthropicImage(part) : part
+              ),
+        is_error: block.isError,
+      };
+  }
+}
+
+function toAnthropicImage(block: ImageBlock): Anthropic.Messages.ImageBlockParam {
+  return {
+    type: "image",
+    source: { type: "base64", media_type: block.mediaType, data: block.data },
+  };
+}
+
+/**
+ * Convert our Message format to Anthropic message format
+ */
+export function toAnthropicMessages(
+  messages: Message[]
+): Anthropic.Messages.MessageParam[] {
+  return messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      role: m.role as "user" | "assistant",
+      content:
+        typeof m.content === "string"
+          ? m.content
+          : m.content
+              .map(toAnthropicBlock)
+              .filter((block): block is Anthropic.Messages.ContentBlockParam => !!block),
+    }));
+}
+
+// Thinking budgets used when only an effort level is given
+const THINKING_BUDGETS = { low: 2_048, medium: 8_192, high: 24_576 };
+
+const EPHEMERAL_CACHE: Anthropic.Messages.CacheControlEphemeral = { type: "ephemeral" };
+
+/**
+ * Add prompt-cache breakpoints to a request
+ *
+ * Three breakpoints are placed: the system prompt, the last tool and the
+ * last message. Each tool-loop iteration only appends to the conversation,
+ * so the next call reads everything up to the previous last message from
+ * the cache instead of paying for it again.
+ */
+export function withCacheBreakpoints(
+  systemPrompt: string,
+  tools: Anthropic.Messages.Tool[],
+  messages: Anthropic.Messages.MessageParam[]
+): {
+  system: Anthropic.Messages.TextBlockParam[];
+  tools: Anthropic.Messages.Tool[];
+  messages: Anthropic.Messages.MessageParam[];
+} {
+  const cachedTools = tools.map((tool, i) =>
+    i === tools.length - 1 ? { ...tool, cache_control: EPHEMERAL_CACHE } : tool
+  );
+
+  const cachedMessages = [...messages];
+  const last = cachedMessages[cachedMessages.length - 1];
+  if (last) {
+    const blocks: Anthropic.Messages.ContentBlockParam[] =
+      typeof last.content === "string"
+        ? [{ type: "text", text: last.content }]
+        : [...last.content];
+    const lastBlock = blocks[blocks.length - 1];
+
+    // Empty text blocks can't carry a breakpoint
+    if (lastBlock && !(lastBlock.type === "text" && !lastBlock.text)) {
+      blocks[blocks.length - 1] = {
+        ...lastBlock,
+        cache_control: EPHEMERAL_CACHE,
+      } as Anthropic.Messages.ContentBlockParam;
+      cachedMessages[cachedMessages.length - 1] = { ...last, content: blocks };
+    }
+  }
+
+  return {
+    system: [{ type: "text", text: systemPrompt, cache_control: EPHEMERAL_CACHE }],
+    tools: cachedTools,
+    messages: cachedMessages,
+  };
+}
+
+/**
+ * Stream a single Messages API call and collect text and tool calls
+ */
+export async function streamAnthropicTurn(
+  params: ProviderTurnParams<AnthropicClient>
+): Promise<ProviderTurnResult> {
+  const {
+    client,
+    model,
+    systemPrompt,
+    messages,
+    tools,
+    maxTokens,
+    onText,
+    thinking,
+    onThinking,
+    abortSignal,
+    promptCaching = true,
+    toolChoice,
+  } = params;
+
+  const thinkingBudget = thinking
+    ? Math.max(1_024, thinking.budgetTokens ?? THINKING_BUDGETS[thinking.effort ?? "medium"])
+    : undefined;
+
+  const request = promptCaching
+    ? withCacheBreakpoints(systemPrompt, toAnthropicTools(tools), toAnthropicMessages(messages))
+    : {
+        system: systemPrompt,
+        tools: toAnthropicTools(tools),
+        messages: toAnthropicMessages(messages),
+      };
+
+  const stream = client.messages.stream(
+    {
+      model,
+      // The thinking budget counts toward max_tokens
+      max_tokens: maxTokens + (thinkingBudget ?? 0),
+      system: request.system,
+      messages: request.messages,
+      tools: request.tools.length > 0 ? request.tools : undefined,
+      tool_choice: toolChoice ? { type: "tool", name: toolChoice } : undefined,
+      thinking: thinkingBudget
+        ? { type: "enabled", budget_tokens: thinkingBudget }
+        : undefined,
+    },
+    { signal: abortSignal }
+  );
+
+  let text = "";
+
+  // Handle streaming events
+  stream.on("text", (delta) => {
+    text += delta;
+    onText?.(delta);
+  });
+
+  stream.on("thinking", (delta) => {
+    onThinking?.(delta);
+  });
+
+  // Wait for completion
+  const response = await stream.finalMessage();
+
+  // Extract tool calls and thinking blocks from response
+  const toolCalls: ToolCall[] = [];
+  const thinkingBlocks: ThinkingBlock[] = [];
+  for (const block of response.content) {
+    if (block.type === "tool_use") {
+      toolCalls.push({
+        id: block.id,
+        name: block.name,
+        arguments: block.input as Record<string, unknown>,
+      });
+    } else if (block.type === "thinking") {
+      thinkingBlocks.push({
+        type: "thinking",
+        thinking: block.thinking,
+        signature: block.signature,
+      });
+    } else if (block.type === "redacted_thinking") {
+      thinkingBlocks.push({ type: "redacted_thinking", data: block.data });
+    }
+  }
+
+  return {
+    text,
+    toolCalls,
+    thinking: thinkingBlocks.length > 0 ? thinkingBlocks : undefined,
+    usage: {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: response.usage.cache_creation_input_tokens ?? 0,
+    },
+    stopReason: response.stop_reason ?? undefined,
+  };
+}
+
+export const anthropicProvider: ModelProvider<
+  AnthropicClient,
+  Anthropic.Messages.MessageParam,
+  ReturnType<typeof toAnthropicTools>[number]
+> = {
+  name: "anthropic",
+  defaultModel: "claude-sonnet-4-20250514",
+
+  resolveModel(model) {
+    return model || this.defaultModel;
+  },
+
+  createClient({ apiKey }) {
+    return new Anthropic({
+      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
+      // Retries are handled by the runner's retry policy
+      maxRetries: 0,
+    });
+  },
+
+  convertMessages: toAnthropicMessages,
+  convertTools: toAnthropicTools,
+  streamTurn: streamAnthropicTurn,
+  classifyError,
+  getRetryAfterMs,
+};
@@ -0,0 +1,89 @@
+/**
+ * Bedrock Provider - Anthropic models served through AWS Bedrock
+ */
+
+import AnthropicBedrock from "@anthropic-ai/bedrock-sdk";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { ModelProvider } from "../types.js";
+import { toAnthropicTools } from "../tools/index.js";
+import {
+  toAnthropicMessages,
+  streamAnthropicTurn,
+  type AnthropicClient,
+} from "./anthropic.js";
+import { classifyError, getRetryAfterMs } from "./errors.js";
+
+// Model ID mapping for Bedrock (short name -> full ARN)
+const BEDROCK_MODEL_MAP: Record<string, string> = {
+  // Claude 4 models
+  "claude-sonnet-4": "us.anthropic.claude-sonnet-4-20250514-v1:0",
+  "claude-opus-4": "us.anthropic.claude-opus-4-20250514-v1:0",
+  // Claude 3.5 models
+  "claude-3.5-sonnet": "us.anthropic.claude-3-5-sonnet-20241022-v2:0",
+  "claude-3.5-haiku": "us.anthropic.claude-3-5-haiku-20241022-v1:0",
+  // Claude 3 models
+  "claude-3-opus": "us.anthropic.claude-3-opus-20240229-v1:0",
+  "claude-3-sonnet": "us.anthropic.claude-3-sonnet-20240229-v1:0",
+  "claude-3-haiku": "us.anthropic.claude-3-haiku-20240307-v1:0",
+};
+
+export const bedrockProvider: ModelProvider<
+  AnthropicClient,
+  Anthropic.Messages.MessageParam,
+  ReturnType<typeof toAnthropicTools>[number]
+> = {
+  name: "bedrock",
+  defaultModel: "us.anthropic.claude-sonnet-4-20250514-v1:0",
+
+  resolveModel(model) {
+    if (!model) {
+      return this.defaultModel;
+    }
+
+    // If it's already a full ARN, use it
+    if (model.includes("anthropic.claude")) {
+      return model;
+    }
+
+    // Try to map short name to full ARN, otherwise assume it's a valid model ID
+    return BEDROCK_MODEL_MAP[model] ?? model;
+  },
+
+  createClient({ bedrockConfig }) {
+    // Retries are handled by the runner's retry policy
+    const config: ConstructorParameters<typeof AnthropicBedrock>[0] = { maxRetries: 0 };
+
+    // Region from config or environment
+    if (bedrockConfig?.region) {
+      config.awsRegion = bedrockConfig.region;
+    } else if (process.env.AWS_REGION) {
+      config.awsRegion = process.env.AWS_REGION;
+    } else if (process.env.AWS_DEFAULT_REGION) {
+      config.awsRegion = process.env.AWS_DEFAULT_REGION;
+    }
+
+    // Explicit credentials if provided
+    if (bedrockConfig?.accessKeyId && bedrockConfig?.secretAccessKey) {
+      config.awsAccessKey = bedrockConfig.accessKeyId;
+      config.awsSecretKey = bedrockConfig.secretAccessKey;
+      if (bedrockConfig.sessionToken) {
+        config.awsSessionToken = bedrockConfig.sessionToken;
+      }
+    }
+
+    return new AnthropicBedrock(config);
+  },
+
+  convertMessages: toAnthropicMessages,
+  convertTools: toAnthropicTools,
+  streamTurn: streamAnthropicTurn,
+  classifyError,
+  getRetryAfterMs,
+};
+
+/**
+ * Get list of available Bedrock model shortcuts
+ */
+export function getBedrockModelShortcuts(): Record<string, string> {
+  return { ...BEDROCK_MODEL_MAP };
+}
@@ -0,0 +1,115 @@
+/**
+ * Provider error classification
+ *
+ * Shared helpers used by the built-in providers to map SDK errors
+ * onto the error kinds reported in AgentRunResult.
+ */
+
+import type { AgentErrorKind } from "../types.js";
+
+/**
+ * Classify an error by HTTP status code (if the SDK attached one)
+ */
+export function classifyErrorStatus(error: unknown): AgentErrorKind | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status !== "number") {
+    return undefined;
+  }
+
+  if (status === 429) return "rate_limit";
+  if (status === 503 || status === 529) return "overloaded";
+  if (status === 401 || status === 403) return "auth_error";
+  if (status === 404) return "model_not_found";
+  return undefined;
+}
+
+/**
+ * Classify an error by well-known substrings in its message
+ */
+export function classifyErrorMessage(message: string): AgentErrorKind | undefined {
+  if (
+    message.includes("context_length_exceeded") ||
+    message.includes("too many tokens") ||
+    message.includes("prompt is too long")
+  ) {
+    return "context_overflow";
+  }
+
+  if (message.includes("rate_limit") || message.includes("ThrottlingException")) {
+    return "rate_limit";
+  }
+
+  if (
+    message.includes("overloaded_error") ||
+    message.includes("Overloaded") ||
+    message.includes("ServiceUnavailableException")
+  ) {
+    return "overloaded";
+  }
+
+  // Bedrock reports models that are not enabled for the account as AccessDenied
+  if (message.includes("don't have access to the model")) {
+    return "model_not_found";
+  }
+
+  if (message.includes("AccessDeniedException") || message.includes("UnauthorizedException")) {
+    return "auth_error";
+  }
+
+  if (message.includes("ResourceNotFoundException") || message.includes("model not found")) {
+    return "model_not_found";
+  }
+
+  return undefined;
+}
+
+/**
+ * Default classification: message patterns first, then HTTP status
+ */
+export function classifyError(error: unknown): AgentErrorKind | undefined {
+  const message = error instanceof Error ? error.message : String(error);
+  return classifyErrorMessage(message) ?? classifyErrorStatus(error);
+}
+
+/**
+ * Read the server-requested retry delay from an SDK error's response headers
+ *
+ * Supports `retry-after-ms`, `retry-after` in seconds and `retry-after`
+ * as an HTTP date. Headers may be a fetch Headers object or a plain record.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+
+  const read = (name: string): string | undefined => {
+    if (typeof (headers as Headers).get === "function") {
+      return (headers as Headers).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === "string" ? value : undefined;
+  };
+
+  const retryAfterMs = Number(read("retry-after-ms"));
+  if (read("retry-after-ms") && Number.isFinite(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = read("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
@@ -0,0 +1,72 @@
+/**
+ * Provider Registry - Pluggable LLM backends
+ *
+ * Built-in providers (anthropic, openai, bedrock) are registered at load
+ * time. Additional providers (e.g. in-house gateways) can be registered
+ * globally with registerProvider() or passed per daemon via
+ * DaemonConfig.providers, which take precedence over the registry.
+ */
+
+import type { ModelProvider, Provider } from "../types.js";
+import { anthropicProvider } from "./anthropic.js";
+import { openaiProvider } from "./openai.js";
+import { bedrockProvider } from "./bedrock.js";
+
+export { anthropicProvider } from "./anthropic.js";
+export { openaiProvider } from "./openai.js";
+export { bedrockProvider, getBedrockModelShortcuts } from "./bedrock.js";
+
+const providers = new Map<string, ModelProvider>();
+
+/**
+ * Register a provider, replacing any existing one with the same name
+ */
+export function registerProvider(provider: ModelProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Remove a provider from the registry
+ */
+export function unregisterProvider(name: string): boolean {
+  return providers.delete(name);
+}
+
+/**
+ * Get a registered provider by name
+ */
+export function getProvider(name: string): ModelProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * List the names of all registered providers
+ */
+export function listProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Resolve a provider by name
+ *
+ * @param name - Provider name
+ * @param overrides - Providers that take precedence over the registry
+ * @throws If no provider with that name is known
+ */
+export function resolveProvider(
+  name: Provider,
+  overrides?: ModelProvider[]
+): ModelProvider {
+  const provider = overrides?.find((p) => p.name === name) ?? providers.get(name);
+
+  if (!provider) {
+    const known = [...new Set([...(overrides ?? []).map((p) => p.name), ...providers.keys()])];
+    throw new Error(`Unknown provider "${name}". Available providers: ${known.join(", ")}`);
+  }
+
+  return provider;
+}
+
+registerProvider(anthropicProvider);
+registerProvider(openaiProvider);
+registerProvider(bedrockProvider);
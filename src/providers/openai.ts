@@ -0,0 +1,312 @@
+/**
+ * OpenAI Provider - Chat Completions API
+ */
+
+import OpenAI from "openai";
+import type {
+  ContentBlock,
+  ImageBlock,
+  Message,
+  ModelProvider,
+  ProviderTurnParams,
+  ProviderTurnResult,
+  ThinkingConfig,
+  Tool,
+  ToolCall,
+} from "../types.js";
+import { classifyError, getRetryAfterMs } from "./errors.js";
+import {
+  getMessageText,
+  getToolCalls,
+  getToolResultImages,
+  getToolResults,
+  getToolResultText,
+} from "../session/messages.js";
+import { parseJsonLenient } from "../utils/json-repair.js";
+
+/**
+ * Convert a user content block to an OpenAI content part
+ *
+ * Thinking and tool blocks have no user-part equivalent and are skipped.
+ */
+function toOpenAIContentPart(
+  block: ContentBlock
+): OpenAI.Chat.ChatCompletionContentPart | undefined {
+  switch (block.type) {
+    case "text":
+      return block.text ? { type: "text", text: block.text } : undefined;
+    case "image":
+      return toOpenAIImage(block);
+    case "document":
+      return block.mediaType === "application/pdf"
+        ? {
+            type: "file",
+            file: {
+              filename: block.title ?? "document.pdf",
+              file_data: `data:application/pdf;base64,${block.data}`,
+            },
+          }
+        : { type: "text", text: block.title ? `${block.title}\n\n${block.data}` : block.data };
+    default:
+      return undefined;
+  }
+}
+
+function toOpenAIImage(block: ImageBlock): OpenAI.Chat.ChatCompletionContentPartImage {
+  return {
+    type: "image_url",
+    image_url: { url: `data:${block.mediaType};base64,${block.data}` },
+  };
+}
+
+/**
+ * Convert our Message format to OpenAI message format
+ *
+ * Tool results become "tool" messages, which only carry text; images
+ * returned by tools follow in a user message.
+ */
+export function toOpenAIMessages(
+  messages: Message[],
+  systemPrompt: string
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const result: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    { role: "system", content: systemPrompt },
+  ];
+
+  for (const m of messages) {
+    if (m.role === "system") continue;
+
+    if (typeof m.content === "string") {
+      // Regular text message
+      result.push({
+        role: m.role as "user" | "assistant",
+        content: m.content,
+      });
+      continue;
+    }
+
+    if (m.role === "assistant") {
+      // Thinking blocks are Anthropic-only and are dropped
+      const toolCalls = getToolCalls(m);
+      result.push({
+        role: "assistant",
+        content: getMessageText(m) || null,
+        tool_calls:
+          toolCalls.length > 0
+            ? toolCalls.map((tc) => ({
+                id: tc.id,
+                type: "function" as const,
+                function: {
+                  name: tc.name,
+                  arguments: JSON.stringify(tc.arguments),
+                },
+              }))
+            : undefined,
+      });
+      continue;
+    }
+
+    // Tool results must directly follow the assistant's tool calls
+    const parts: OpenAI.Chat.ChatCompletionContentPart[] = [];
+    for (const tr of getToolResults(m)) {
+      result.push({
+        role: "tool",
+        tool_call_id: tr.toolCallId,
+        content: getToolResultText(tr.content),
+      });
+      parts.push(...getToolResultImages(tr.content).map(toOpenAIImage));
+    }
+
+    for (const block of m.content) {
+      const part = toOpenAIContentPart(block);
+      if (part) parts.push(part);
+    }
+
+    if (parts.length > 0) {
+      result.push({ role: "user", content: parts });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert our Tool format to OpenAI tool format
+ */
+export function toOpenAITools(tools: Tool[]): OpenAI.Chat.ChatCompletionTool[] {
+  return tools.map((tool) => ({
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as Record<string, unknown>,
+    },
+  }));
+}
+
+/**
+ * Map a thinking config to an OpenAI reasoning effort
+ *
+ * Chat Completions does not stream reasoning text, so onThinking is never
+ * called for this provider.
+ */
+function resolveReasoningEffort(thinking: ThinkingConfig): "low" | "medium" | "high" {
+  if (thinking.effort) return thinking.effort;
+  if (thinking.budgetTokens === undefined) return "medium";
+  if (thinking.budgetTokens < 4_096) return "low";
+  if (thinking.budgetTokens < 16_384) return "medium";
+  return "high";
+}
+
+/**
+ * Parse streamed tool call arguments, repairing malformed JSON
+ *
+ * Arguments that still cannot be parsed are reported on the tool call
+ * rather than thrown, so the model can retry the call.
+ */
+function parseArguments(text: string): Pick<ToolCall, "arguments" | "argumentsError"> {
+  if (!text.trim()) {
+    return { arguments: {} };
+  }
+  try {
+    const value = parseJsonLenient(text);
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      return { arguments: value as Record<string, unknown> };
+    }
+    return { arguments: {}, argumentsError: "arguments must be a JSON object" };
+  } catch (error) {
+    const message = (error as Error).message;
+    return { arguments: {}, argumentsError: `arguments are not valid JSON (${message})` };
+  }
+}
+
+/**
+ * Stream a single chat completion and collect text and tool calls
+ */
+async function streamOpenAITurn(
+  params: ProviderTurnParams<OpenAI>
+): Promise<ProviderTurnResult> {
+  const {
+    client,
+    model,
+    systemPrompt,
+    messages,
+    tools,
+    maxTokens,
+    onText,
+    thinking,
+    abortSignal,
+    toolChoice,
+  } = params;
+  const openaiTools = toOpenAITools(tools);
+  const reasoningEffort = thinking ? resolveReasoningEffort(thinking) : undefined;
+
+  // Make API call with streaming
+  const stream = await client.chat.completions.create(
+    {
+      model,
+      // Reasoning models only accept max_completion_tokens
+      ...(reasoningEffort
+        ? { max_completion_tokens: maxTokens, reasoning_effort: reasoningEffort }
+        : { max_tokens: maxTokens }),
+      messages: toOpenAIMessages(messages, systemPrompt),
+      tools: openaiTools.length > 0 ? openaiTools : undefined,
+      tool_choice: toolChoice ? { type: "function", function: { name: toolChoice } } : undefined,
+      stream: true,
+      stream_options: { include_usage: true },
+    },
+    { signal: abortSignal }
+  );
+
+  let text = "";
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cacheReadTokens = 0;
+  let stopReason: string | undefined;
+  const toolCalls: Array<{
+    id: string;
+    name: string;
+    arguments: string;
+  }> = [];
+  let currentToolCallIndex = -1;
+
+  // Handle streaming events
+  for await (const chunk of stream) {
+    // Handle usage data
+    if (chunk.usage) {
+      // OpenAI caches prompt prefixes automatically and counts the hits as
+      // part of prompt_tokens; report them separately like Anthropic does
+      const cached = chunk.usage.prompt_tokens_details?.cached_tokens || 0;
+      inputTokens += (chunk.usage.prompt_tokens || 0) - cached;
+      outputTokens += chunk.usage.completion_tokens || 0;
+      cacheReadTokens += cached;
+    }
+
+    const choice = chunk.choices[0];
+    if (choice?.finish_reason) {
+      stopReason = choice.finish_reason;
+    }
+
+    const delta = choice?.delta;
+    if (!delta) continue;
+
+    // Handle text content
+    if (delta.content) {
+      text += delta.content;
+      onText?.(delta.content);
+    }
+
+    // Handle tool calls
+    if (delta.tool_calls) {
+      for (const tc of delta.tool_calls) {
+        if (tc.index !== undefined && tc.index !== currentToolCallIndex) {
+          currentToolCallIndex = tc.index;
+          toolCalls[tc.index] = {
+            id: tc.id || "",
+            name: tc.function?.name || "",
+            arguments: tc.function?.arguments || "",
+          };
+        } else if (tc.index !== undefined) {
+          if (tc.id) toolCalls[tc.index].id = tc.id;
+          if (tc.function?.name) toolCalls[tc.index].name += tc.function.name;
+          if (tc.function?.arguments) toolCalls[tc.index].arguments += tc.function.arguments;
+        }
+      }
+    }
+  }
+
+  // Parse tool call arguments
+  return {
+    text,
+    toolCalls: toolCalls.map((tc) => ({ id: tc.id, name: tc.name, ...parseArguments(tc.arguments) })),
+    usage: { inputTokens, outputTokens, cacheReadTokens },
+    stopReason,
+  };
+}
+
+export const openaiProvider: ModelProvider<
+  OpenAI,
+  OpenAI.Chat.ChatCompletionMessageParam,
+  OpenAI.Chat.ChatCompletionTool
+> = {
+  name: "openai",
+  defaultModel: "gpt-4o",
+
+  resolveModel(model) {
+    return model || this.defaultModel;
+  },
+
+  createClient({ apiKey }) {
+    return new OpenAI({
+      apiKey: apiKey || process.env.OPENAI_API_KEY,
+      // Retries are handled by the runner's retry policy
+      maxRetries: 0,
+    });
+  },
+
+  convertMessages: toOpenAIMessages,
+  convertTools: toOpenAITools,
+  streamTurn: streamOpenAITurn,
+  classifyError,
+  getRetryAfterMs,
+};
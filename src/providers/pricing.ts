@@ -0,0 +1,88 @@
+/**
+ * Model Pricing - Estimate the cost of model calls
+ *
+ * Inspired by OpenClaw's usage cost tracking
+ *
+ * Key concepts:
+ * - Prices are USD per million tokens, keyed by model ID
+ * - Bedrock IDs (e.g. "us.anthropic.claude-sonnet-4-20250514-v1:0") fall
+ *   back to the matching Anthropic model's price
+ * - Models without a price have no estimated cost
+ * - Config can add or override prices per model
+ */
+
+import type { ModelPricing, TokenUsage } from "../types.js";
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // Anthropic
+  "claude-sonnet-4-20250514": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-opus-4-20250514": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "claude-3-opus-20240229": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-3-sonnet-20240229": { input: 3, output: 15 },
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+  // OpenAI
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+};
+
+/**
+ * Strip the Bedrock region prefix and version suffix from a model ID
+ */
+function toBaseModelId(model: string): string {
+  return model.replace(/^(?:[a-z]{2,4}\.)?anthropic\./, "").replace(/-v\d+(?::\d+)?$/, "");
+}
+
+/**
+ * Look up the price of a model, preferring config overrides
+ */
+export function getModelPricing(
+  model: string,
+  overrides?: Record<string, ModelPricing>
+): ModelPricing | undefined {
+  const baseId = toBaseModelId(model);
+  return (
+    overrides?.[model] ??
+    overrides?.[baseId] ??
+    MODEL_PRICING[model] ??
+    MODEL_PRICING[baseId]
+  );
+}
+
+/**
+ * Estimate the cost of token usage in USD
+ *
+ * Cache reads and writes fall back to the input price when the model has
+ * no separate cache price.
+ *
+ * @returns The cost, or undefined if the model has no known price
+ */
+export function estimateCost(
+  model: string,
+  usage: TokenUsage,
+  overrides?: Record<string, ModelPricing>
+): number | undefined {
+  const pricing = getModelPricing(model, overrides);
+  if (!pricing) {
+    return undefined;
+  }
+
+  return (
+    (usage.inputTokens * pricing.input +
+      usage.outputTokens * pricing.output +
+      (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input) +
+      (usage.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? pricing.input)) /
+    1_000_000
+  );
+}
+
+/**
+ * Add token counts to a running total
+ */
+export function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.cacheReadTokens = (total.cacheReadTokens ?? 0) + (usage.cacheReadTokens ?? 0);
+  total.cacheWriteTokens = (total.cacheWriteTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+}
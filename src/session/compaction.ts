@@ -0,0 +1,263 @@
+/**
+ * Context Compaction - Summarize old history to stay within a token budget
+ *
+ * Inspired by OpenClaw's session compaction
+ *
+ * Key concepts:
+ * - Token usage is estimated from message size (~4 characters per token)
+ * - Older turns are replaced by a single summary message written by the model
+ * - History is only cut at the start of a user prompt, so an assistant
+ *   tool call is never separated from its tool results
+ * - Earlier summaries are folded into the next one
+ * - A single turn too large to split has its tool results truncated instead
+ */
+
+import type { ContentBlock, Message } from "../types.js";
+import { getContentBlocks, getMessageText, getToolResultText } from "./messages.js";
+
+const CHARS_PER_TOKEN = 4;
+// Rough cost of one image, which is billed by size rather than bytes
+const IMAGE_TOKENS = 1_600;
+const MAX_TRANSCRIPT_RESULT_CHARS = 2_000;
+// Longest tool result kept when a turn is too large to summarize
+const MAX_KEPT_RESULT_CHARS = 2_000;
+
+export const SUMMARY_PREFIX = "Summary of the earlier conversation:";
+
+export const SUMMARY_SYSTEM_PROMPT = `You compress conversation history for a coding assistant.
+Write a concise summary of the transcript you are given. Keep:
+- The user's goals, requests and stated preferences
+- Decisions made and their reasons
+- Files read, created or modified, and important findings about them
+- Commands run and notable results or errors
+- Open questions and unfinished work
+Omit pleasantries and anything that no longer matters. Use short bullet points.`;
+
+/**
+ * Estimate the token count of a string
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the token count of a list of messages
+ */
+export function estimateTokens(messages: Message[]): number {
+  let chars = 0;
+  let images = 0;
+
+  const count = (block: ContentBlock) => {
+    switch (block.type) {
+      case "text":
+        chars += block.text.length;
+        break;
+      case "image":
+        images++;
+        break;
+      case "document":
+      case "redacted_thinking":
+        chars += block.data.length;
+        break;
+      case "thinking":
+        chars += block.thinking.length;
+        break;
+      case "tool_use":
+        chars += block.name.length + JSON.stringify(block.arguments).length;
+        break;
+      case "tool_result":
+        if (typeof block.content === "string") {
+          chars += block.content.length;
+        } else {
+          block.content.forEach(count);
+        }
+        break;
+    }
+  };
+
+  for (const m of messages) {
+    getContentBlocks(m).forEach(count);
+  }
+
+  return Math.ceil(chars / CHARS_PER_TOKEN) + images * IMAGE_TOKENS;
+}
+
+/**
+ * Check whether history can be cut right before this message
+ *
+ * Only a plain user prompt starts a new turn; tool results belong to the
+ * assistant message before them.
+ */
+export function isTurnBoundary(message: Message): boolean {
+  return (
+    message.role === "user" &&
+    !getContentBlocks(message).some((block) => block.type === "tool_result")
+  );
+}
+
+/**
+ * Find where the kept (recent) part of the history starts
+ *
+ * Walks back from the end, keeping whole turns while they fit in
+ * keepTokens. The most recent turn is always kept.
+ *
+ * @returns Index of the first kept message (0 if nothing can be compacted)
+ */
+export function findCompactionSplit(messages: Message[], keepTokens: number): number {
+  let split = messages.length;
+  let kept = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    kept += estimateTokens([messages[i]]);
+
+    if (isTurnBoundary(messages[i])) {
+      if (kept > keepTokens && split < messages.length) {
+        break;
+      }
+      split = i;
+    }
+  }
+
+  // Never leave a lone summary (or nothing) to summarize
+  return split === messages.length ? 0 : split;
+}
+
+/**
+ * Render messages as a plain-text transcript for the summarizer
+ */
+export function renderTranscript(messages: Message[]): string {
+  const lines: string[] = [];
+
+  for (const m of messages) {
+    if (m.isSummary) {
+      lines.push(`[Earlier summary]\n${getMessageText(m)}`);
+      continue;
+    }
+
+    const role = m.role.toUpperCase();
+    for (const block of getContentBlocks(m)) {
+      switch (block.type) {
+        case "text":
+          if (block.text) lines.push(`${role}: ${block.text}`);
+          break;
+        case "image":
+          lines.push(`${role}: [image]`);
+          break;
+        case "document":
+          lines.push(`${role}: [document${block.title ? `: ${block.title}` : ""}]`);
+          break;
+        case "tool_use":
+          lines.push(`TOOL CALL ${block.name}: ${JSON.stringify(block.arguments)}`);
+          break;
+        case "tool_result": {
+          const text = getToolResultText(block.content);
+          const content =
+            text.length > MAX_TRANSCRIPT_RESULT_CHARS
+              ? text.slice(0, MAX_TRANSCRIPT_RESULT_CHARS) + "\n... (truncated)"
+              : text;
+          lines.push(`TOOL RESULT${block.isError ? " (error)" : ""}: ${content}`);
+          break;
+        }
+      }
+    }
+  }
+
+  return lines.join("\n\n");
+}
+
+/**
+ * Shorten long tool results, keeping their start
+ *
+ * Used when a turn is too large to be summarized away, e.g. a tool that
+ * returned a huge file.
+ *
+ * @returns The new messages, and whether any result was shortened
+ */
+export function truncateToolResults(
+  messages: Message[],
+  maxChars = MAX_KEPT_RESULT_CHARS
+): { messages: Message[]; truncated: boolean } {
+  let truncated = false;
+
+  const shorten = (text: string): string => {
+    if (text.length <= maxChars) return text;
+    truncated = true;
+    return `${text.slice(0, maxChars)}\n... (${text.length - maxChars} characters removed to fit the context window)`;
+  };
+
+  const result = messages.map((m): Message => {
+    if (typeof m.content === "string") return m;
+
+    const content = m.content.map((block): ContentBlock => {
+      if (block.type !== "tool_result") return block;
+      return {
+        ...block,
+        content:
+          typeof block.content === "string"
+            ? shorten(block.content)
+            : block.content.map((part) =>
+                part.type === "text" ? { ...part, text: shorten(part.text) } : part
+              ),
+      };
+    });
+    return { ...m, content };
+  });
+
+  return { messages: truncated ? result : messages, truncated };
+}
+
+/**
+ * Build the summary message that replaces compacted history
+ */
+export function createSummaryMessage(summary: string): Message {
+  return {
+    role: "user",
+    content: `${SUMMARY_PREFIX}\n\n${summary.trim()}`,
+    isSummary: true,
+  };
+}
+
+/**
+ * Compact history if it exceeds the token budget
+ *
+ * @param options.budgetTokens - Compact when history is larger than this
+ * @param options.keepTokens - Recent history to keep verbatim (default: half the budget)
+ * @param options.force - Compact even when under budget (e.g. after a context overflow)
+ * @param options.summarize - Produces a summary for a transcript
+ * If the most recent turn alone is over the keep budget there is nothing
+ * older to summarize, so its long tool results are truncated instead.
+ *
+ * @returns The new history, and whether anything was compacted
+ */
+export async function compactHistory(
+  messages: Message[],
+  options: {
+    budgetTokens: number;
+    keepTokens?: number;
+    force?: boolean;
+    summarize: (transcript: string) => Promise<string>;
+  }
+): Promise<{ messages: Message[]; compacted: boolean }> {
+  const { budgetTokens, force = false, summarize } = options;
+  const keepTokens = options.keepTokens ?? Math.floor(budgetTokens / 2);
+
+  if (!force && estimateTokens(messages) <= budgetTokens) {
+    return { messages, compacted: false };
+  }
+
+  const split = findCompactionSplit(messages, keepTokens);
+  const older = messages.slice(0, split);
+
+  // Nothing to gain from re-summarizing a lone summary
+  if (older.length === 0 || (older.length === 1 && older[0].isSummary)) {
+    const result = truncateToolResults(messages);
+    return { messages: result.messages, compacted: result.truncated };
+  }
+
+  const summary = await summarize(renderTranscript(older));
+
+  return {
+    messages: [createSummaryMessage(summary), ...messages.slice(split)],
+    compacted: true,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Message Content - Helpers for structured message content
+ *
+ * Key concepts:
+ * - Message content is plain text or a list of typed blocks
+ * - Tool calls, tool results and thinking are blocks like any other
+ * - Sessions saved before content blocks existed (plain string content
+ *   with toolCalls/toolResults/thinking fields) are upgraded on load
+ */
+
+import type {
+  ContentBlock,
+  ImageBlock,
+  Message,
+  TextBlock,
+  ThinkingBlock,
+  ToolCall,
+  ToolResult,
+  ToolResultBlock,
+  ToolUseBlock,
+} from "../types.js";
+
+// Message shape written by earlier versions
+interface LegacyMessage {
+  role: Message["role"];
+  content: string | ContentBlock[];
+  toolCalls?: ToolCall[];
+  toolResults?: ToolResult[];
+  thinking?: ThinkingBlock[];
+  isSummary?: boolean;
+  cancelled?: boolean;
+}
+
+/**
+ * Get a message's content as blocks
+ */
+export function getContentBlocks(message: Message): ContentBlock[] {
+  if (typeof message.content !== "string") {
+    return message.content;
+  }
+  return message.content ? [{ type: "text", text: message.content }] : [];
+}
+
+/**
+ * Get the plain text of a message (text blocks only)
+ */
+export function getMessageText(message: Message): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .filter((block): block is TextBlock => block.type === "text")
+    .map((block) => block.text)
+    .join("");
+}
+
+/**
+ * Get the tool calls requested by an assistant message
+ */
+export function getToolCalls(message: Message): ToolCall[] {
+  return getContentBlocks(message)
+    .filter((block): block is ToolUseBlock => block.type === "tool_use")
+    .map(({ id, name, arguments: args }) => ({ id, name, arguments: args }));
+}
+
+/**
+ * Get the tool results carried by a user message
+ */
+export function getToolResults(message: Message): ToolResult[] {
+  return getContentBlocks(message)
+    .filter((block): block is ToolResultBlock => block.type === "tool_result")
+    .map(({ toolCallId, content, isError }) => ({ toolCallId, content, isError }));
+}
+
+/**
+ * Get the text of a tool result, with a placeholder for each image
+ */
+export function getToolResultText(content: ToolResult["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content.map((part) => (part.type === "text" ? part.text : "[image]")).join("\n");
+}
+
+/**
+ * Get the images of a tool result
+ */
+export function getToolResultImages(content: ToolResult["content"]): ImageBlock[] {
+  return typeof content === "string"
+    ? []
+    : content.filter((part): part is ImageBlock => part.type === "image");
+}
+
+/**
+ * Build the assistant message for one model call
+ *
+ * Thinking blocks come first, as providers require them to be replayed
+ * ahead of the text and tool calls they led to.
+ */
+export function createAssistantMessage(turn: {
+  text: string;
+  toolCalls?: ToolCall[];
+  thinking?: ThinkingBlock[];
+}): Message {
+  const toolCalls = turn.toolCalls ?? [];
+  const thinking = turn.thinking ?? [];
+
+  if (toolCalls.length === 0 && thinking.length === 0) {
+    return { role: "assistant", content: turn.text };
+  }
+
+  const content: ContentBlock[] = [...thinking];
+  if (turn.text) {
+    content.push({ type: "text", text: turn.text });
+  }
+  for (const toolCall of toolCalls) {
+    content.push({ type: "tool_use", ...toolCall });
+  }
+
+  return { role: "assistant", content };
+}
+
+/**
+ * Build the user message that returns tool results to the model
+ */
+export function createToolResultMessage(results: ToolResult[]): Message {
+  return {
+    role: "user",
+    content: results.map((result) => ({ type: "tool_result", ...result })),
+  };
+}
+
+/**
+ * Upgrade a message read from a session file to the current format
+ */
+export function normalizeMessage(raw: LegacyMessage): Message {
+  const { toolCalls, toolResults, thinking, ...message } = raw;
+
+  if (!toolCalls?.length && !toolResults?.length && !thinking?.length) {
+    return message;
+  }
+
+  const text = typeof raw.content === "string" ? raw.content : getMessageText(raw);
+  if (toolResults?.length) {
+    const content = createToolResultMessage(toolResults).content as ContentBlock[];
+    return { ...message, content: text ? [...content, { type: "text", text }] : content };
+  }
+
+  return { ...message, ...createAssistantMessage({ text, toolCalls, thinking }) };
+}
@@ -13,7 +13,9 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { Message } from "../types.js";
+import type { Message, TokenUsage } from "../types.js";
+import { isTurnBoundary } from "./compaction.js";
+import { normalizeMessage } from "./messages.js";
 
 export interface SessionData {
   sessionId: string;
@@ -23,6 +25,9 @@ export interface SessionData {
     updatedAt: string;
     model?: string;
     provider?: string;
+    // Totals across every run of the session
+    usage?: TokenUsage;
+    costUsd?: number;
   };
 }
 
@@ -63,7 +68,8 @@ export async function loadSession(sessionFile: string): Promise<SessionData | nu
 
     // First line is metadata, rest are messages
     const metadata = JSON.parse(lines[0]);
-    const messages: Message[] = lines.slice(1).map((line) => JSON.parse(line));
+    // Messages from older versions are upgraded to content blocks
+    const messages: Message[] = lines.slice(1).map((line) => normalizeMessage(JSON.parse(line)));
 
     return {
       sessionId: metadata.sessionId,
@@ -73,6 +79,8 @@ export async function loadSession(sessionFile: string): Promise<SessionData | nu
         updatedAt: metadata.updatedAt,
         model: metadata.model,
         provider: metadata.provider,
+        usage: metadata.usage,
+        costUsd: metadata.costUsd,
       },
     };
   } catch (error) {
@@ -103,6 +111,8 @@ export async function saveSession(
       updatedAt: new Date().toISOString(),
       model: session.metadata.model,
       provider: session.metadata.provider,
+      usage: session.metadata.usage,
+      costUsd: session.metadata.costUsd,
     });
 
     const messageLines = session.messages.map((msg) => JSON.stringify(msg));
@@ -166,6 +176,9 @@ export function resolveSessionFile(
 /**
  * Limit history to prevent context overflow
  * Keeps the first message (usually system context) and trims from the middle
+ *
+ * The cut is moved forward to the next user prompt so a tool call is never
+ * separated from its results. Prefer compactHistory() for token-aware trimming.
  */
 export function limitHistoryTurns(
   messages: Message[],
@@ -175,9 +188,12 @@ export function limitHistoryTurns(
     return messages;
   }
 
-  // Keep first message and last (maxTurns - 1) messages
+  // Keep first message and the last (maxTurns - 1) messages, starting at a turn boundary
   const firstMessage = messages[0];
-  const recentMessages = messages.slice(-(maxTurns - 1));
+  let start = messages.length - (maxTurns - 1);
+  while (start < messages.length && !isTurnBoundary(messages[start])) {
+    start++;
+  }
 
-  return [firstMessage, ...recentMessages];
+  return [firstMessage, ...messages.slice(start)];
 }
@@ -0,0 +1,308 @@
+/**
+ * Background Processes - Long-running commands started by exec
+ *
+ * Inspired by OpenClaw's background exec sessions (process tool)
+ *
+ * Key concepts:
+ * - `exec` with `background: true` starts a command and returns a handle
+ *   (bg-1, bg-2, ...) instead of waiting for it to exit
+ * - Output is buffered until it is polled; each poll returns only what is new
+ * - Each run owns a registry, and every process in it is stopped when the
+ *   run ends, is cancelled, or the agent process exits
+ * - Commands run in their own process group so stopping one also stops
+ *   the processes it started (e.g. the server behind `npm run dev`)
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import type { ExecSpawnSpec } from "../types.js";
+
+// Unread output kept per stream; older output is dropped first
+const MAX_BUFFERED_CHARS = 30_000;
+
+// How long a process may take to exit after SIGTERM before it gets SIGKILL
+const KILL_GRACE_MS = 5000;
+
+export interface BackgroundProcessInfo {
+  id: string;
+  command: string;
+  pid?: number;
+  startedAt: Date;
+  running: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+interface OutputBuffer {
+  text: string;
+  dropped: number;
+}
+
+interface BackgroundProcess extends BackgroundProcessInfo {
+  child: ChildProcess;
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  exited: Promise<void>;
+  // Pollers waiting for new output
+  waiters: Set<() => void>;
+}
+
+// Processes still running in any registry, stopped if the agent process exits
+const liveProcesses = new Set<BackgroundProcess>();
+let exitHookInstalled = false;
+
+/**
+ * Background processes started during one run
+ */
+export class ProcessRegistry {
+  private processes = new Map<string, BackgroundProcess>();
+  private nextId = 1;
+
+  /**
+   * Start a command in the background
+   */
+  start(command: string, spec: ExecSpawnSpec, cwd: string): BackgroundProcessInfo {
+    installExitHook();
+
+    const child = spawn(spec.file, spec.args, {
+      cwd,
+      env: spec.env,
+      stdio: ["pipe", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+
+    let markExited!: () => void;
+    const proc: BackgroundProcess = {
+      id: `bg-${this.nextId++}`,
+      command,
+      pid: child.pid,
+      startedAt: new Date(),
+      running: true,
+      exitCode: null,
+      signal: null,
+      child,
+      stdout: { text: "", dropped: 0 },
+      stderr: { text: "", dropped: 0 },
+      waiters: new Set(),
+      exited: new Promise((resolve) => {
+        markExited = resolve;
+      }),
+    };
+
+    const onExit = (exitCode: number | null, signal: NodeJS.Signals | null) => {
+      if (!proc.running) return;
+      proc.running = false;
+      proc.exitCode = exitCode;
+      proc.signal = signal;
+      liveProcesses.delete(proc);
+      markExited();
+      wake(proc);
+    };
+
+    child.stdout?.on("data", (data) => append(proc, proc.stdout, data.toString()));
+    child.stderr?.on("data", (data) => append(proc, proc.stderr, data.toString()));
+    // Writes to a process that has exited fail here instead of crashing the agent
+    child.stdin?.on("error", () => {});
+    child.on("close", onExit);
+    child.on("error", (error) => {
+      append(proc, proc.stderr, error.message);
+      onExit(1, null);
+    });
+
+    liveProcesses.add(proc);
+    this.processes.set(proc.id, proc);
+    return describe(proc);
+  }
+
+  /**
+   * List every process started in this run, running or not
+   */
+  list(): BackgroundProcessInfo[] {
+    return [...this.processes.values()].map(describe);
+  }
+
+  get(id: string): BackgroundProcessInfo | undefined {
+    const proc = this.processes.get(id);
+    return proc && describe(proc);
+  }
+
+  /**
+   * Take the output written since the last read
+   *
+   * @param waitMs - If there is no new output yet, wait up to this long
+   *   for some (or for the process to exit)
+   */
+  async read(
+    id: string,
+    waitMs = 0,
+    abortSignal?: AbortSignal
+  ): Promise<{ stdout: string; stderr: string; info: BackgroundProcessInfo } | { error: string }> {
+    const proc = this.processes.get(id);
+    if (!proc) {
+      return { error: unknownProcess(id) };
+    }
+
+    if (waitMs > 0 && proc.running && !proc.stdout.text && !proc.stderr.text) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          abortSignal?.removeEventListener("abort", done);
+          proc.waiters.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, waitMs);
+        abortSignal?.addEventListener("abort", done, { once: true });
+        proc.waiters.add(done);
+      });
+    }
+
+    return { stdout: drain(proc.stdout), stderr: drain(proc.stderr), info: describe(proc) };
+  }
+
+  /**
+   * Write to a process's stdin
+   *
+   * @param end - Close stdin afterwards (sends EOF)
+   */
+  write(id: string, input: string, end = false): { ok: true } | { error: string } {
+    const proc = this.processes.get(id);
+    if (!proc) {
+      return { error: unknownProcess(id) };
+    }
+    const stdin = proc.child.stdin;
+    if (!proc.running || !stdin || stdin.writableEnded) {
+      const reason = proc.running ? "its stdin is closed" : "it has exited";
+      return { error: `Error: ${id} is not accepting input: ${reason}` };
+    }
+
+    if (end) {
+      stdin.end(input);
+    } else {
+      stdin.write(input);
+    }
+    return { ok: true };
+  }
+
+  /**
+   * Stop a process and wait for it to exit
+   *
+   * SIGTERM is followed by SIGKILL if the process is still running after
+   * a grace period.
+   */
+  async kill(
+    id: string,
+    signal: NodeJS.Signals = "SIGTERM"
+  ): Promise<{ info: BackgroundProcessInfo } | { error: string }> {
+    const proc = this.processes.get(id);
+    if (!proc) {
+      return { error: unknownProcess(id) };
+    }
+
+    if (proc.running) {
+      signalProcess(proc, signal);
+      const escalate = setTimeout(() => signalProcess(proc, "SIGKILL"), KILL_GRACE_MS);
+      await proc.exited;
+      clearTimeout(escalate);
+    }
+    return { info: describe(proc) };
+  }
+
+  /**
+   * Stop every running process without waiting for them to exit
+   */
+  killAll(): void {
+    for (const proc of this.processes.values()) {
+      if (proc.running) {
+        signalProcess(proc, "SIGTERM");
+        setTimeout(() => signalProcess(proc, "SIGKILL"), KILL_GRACE_MS).unref();
+      }
+    }
+  }
+}
+
+/**
+ * Format a process's state for tool results, e.g. "running (pid 123)"
+ */
+export function formatProcessStatus(info: BackgroundProcessInfo): string {
+  if (info.running) {
+    return `running (pid ${info.pid ?? "?"})`;
+  }
+  return info.signal ? `killed by ${info.signal}` : `exited with code ${info.exitCode}`;
+}
+
+function append(proc: BackgroundProcess, buffer: OutputBuffer, text: string): void {
+  buffer.text += text;
+  if (buffer.text.length > MAX_BUFFERED_CHARS) {
+    const excess = buffer.text.length - MAX_BUFFERED_CHARS;
+    buffer.text = buffer.text.slice(excess);
+    buffer.dropped += excess;
+  }
+  wake(proc);
+}
+
+function wake(proc: BackgroundProcess): void {
+  for (const waiter of [...proc.waiters]) {
+    waiter();
+  }
+}
+
+function drain(buffer: OutputBuffer): string {
+  const note = buffer.dropped
+    ? `... (${buffer.dropped} earlier characters dropped) ...\n`
+    : "";
+  const text = note + buffer.text;
+  buffer.text = "";
+  buffer.dropped = 0;
+  return text;
+}
+
+function describe(proc: BackgroundProcess): BackgroundProcessInfo {
+  return {
+    id: proc.id,
+    command: proc.command,
+    pid: proc.pid,
+    startedAt: proc.startedAt,
+    running: proc.running,
+    exitCode: proc.exitCode,
+    signal: proc.signal,
+  };
+}
+
+function unknownProcess(id: string): string {
+  return `Error: No background process ${id} in this run. Use process_list to see the running ones.`;
+}
+
+function signalProcess(proc: BackgroundProcess, signal: NodeJS.Signals): void {
+  if (proc.running) {
+    signalProcessGroup(proc.child, signal);
+  }
+}
+
+/**
+ * Signal a process started with `detached: true` and, where supported,
+ * its whole process group
+ */
+export function signalProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    if (process.platform !== "win32" && child.pid !== undefined) {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Stop leftover background processes when the agent process exits, so
+ * servers and watchers don't outlive it
+ */
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.on("exit", () => {
+    for (const proc of liveProcesses) {
+      signalProcess(proc, "SIGKILL");
+    }
+  });
+}
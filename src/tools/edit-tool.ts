@@ -6,8 +6,44 @@
  */
 
 import fs from "node:fs/promises";
-import path from "node:path";
 import type { Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import { createUnifiedDiff } from "../utils/diff.js";
+import { resolveToolPath } from "./paths.js";
+
+/**
+ * Replace old_string in a file's content
+ *
+ * @returns The new content and number of replacements, or an error for the model
+ */
+function applyEdit(
+  content: string,
+  oldString: string,
+  newString: string,
+  replaceAll: boolean
+): { content: string; matchCount: number } | { error: string } {
+  // Check if old_string exists in file
+  if (!content.includes(oldString)) {
+    return {
+      error: `Error: The string to replace was not found in the file.\n\nSearched for:\n\`\`\`\n${oldString.slice(0, 200)}${oldString.length > 200 ? "..." : ""}\n\`\`\``,
+    };
+  }
+
+  // Check for ambiguity (multiple matches when not using replace_all)
+  const matches = content.split(oldString).length - 1;
+  if (!replaceAll && matches > 1) {
+    return {
+      error: `Error: Found ${matches} occurrences of the string. Either:\n1. Provide more context to make the match unique\n2. Set replace_all=true to replace all occurrences`,
+    };
+  }
+
+  // Perform the replacement
+  return {
+    content: replaceAll
+      ? content.replaceAll(oldString, newString)
+      : content.replace(oldString, newString),
+    matchCount: replaceAll ? matches : 1,
+  };
+}
 
 export const editTool: Tool = {
   name: "edit",
@@ -34,6 +70,28 @@ export const editTool: Tool = {
     },
     required: ["file_path", "old_string", "new_string"],
   },
+  editsFiles: true,
+
+  async preview(args: Record<string, unknown>, ctx: ToolContext): Promise<string> {
+    const filePath = args.file_path as string;
+    const resolved = await resolveToolPath(ctx, filePath, "write");
+    if ("error" in resolved) {
+      return resolved.error;
+    }
+
+    try {
+      const content = await fs.readFile(resolved.path, "utf-8");
+      const edit = applyEdit(
+        content,
+        args.old_string as string,
+        args.new_string as string,
+        (args.replace_all as boolean) ?? false
+      );
+      return "error" in edit ? edit.error : createUnifiedDiff(content, edit.content, filePath);
+    } catch (error) {
+      return `Edit ${filePath} (${(error as Error).message})`;
+    }
+  },
 
   async execute(
     args: Record<string, unknown>,
@@ -45,47 +103,26 @@ export const editTool: Tool = {
     const replaceAll = (args.replace_all as boolean) ?? false;
 
     // Resolve path relative to workspace
-    const resolvedPath = path.isAbsolute(filePath)
-      ? filePath
-      : path.join(ctx.workspaceDir, filePath);
+    const resolved = await resolveToolPath(ctx, filePath, "write");
+    if ("error" in resolved) {
+      return { content: resolved.error, isError: true };
+    }
+    const resolvedPath = resolved.path;
 
     try {
       // Read the file
       const content = await fs.readFile(resolvedPath, "utf-8");
 
-      // Check if old_string exists in file
-      if (!content.includes(oldString)) {
-        return {
-          content: `Error: The string to replace was not found in the file.\n\nSearched for:\n\`\`\`\n${oldString.slice(0, 200)}${oldString.length > 200 ? "..." : ""}\n\`\`\``,
-          isError: true,
-        };
-      }
-
-      // Check for ambiguity (multiple matches when not using replace_all)
-      if (!replaceAll) {
-        const matches = content.split(oldString).length - 1;
-        if (matches > 1) {
-          return {
-            content: `Error: Found ${matches} occurrences of the string. Either:\n1. Provide more context to make the match unique\n2. Set replace_all=true to replace all occurrences`,
-            isError: true,
-          };
-        }
+      const edit = applyEdit(content, oldString, newString, replaceAll);
+      if ("error" in edit) {
+        return { content: edit.error, isError: true };
       }
 
-      // Perform the replacement
-      const newContent = replaceAll
-        ? content.replaceAll(oldString, newString)
-        : content.replace(oldString, newString);
-
       // Write back
-      await fs.writeFile(resolvedPath, newContent, "utf-8");
-
-      const matchCount = replaceAll
-        ? content.split(oldString).length - 1
-        : 1;
+      await fs.writeFile(resolvedPath, edit.content, "utf-8");
 
       return {
-        content: `Edited ${filePath}: replaced ${matchCount} occurrence${matchCount > 1 ? "s" : ""}`,
+        content: `Edited ${filePath}: replaced ${edit.matchCount} occurrence${edit.matchCount > 1 ? "s" : ""}`,
       };
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
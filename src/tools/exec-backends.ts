@@ -0,0 +1,203 @@
+/**
+ * Exec Backends - Where and how the exec tool runs shell commands
+ *
+ * Inspired by OpenClaw's sandboxed exec
+ *
+ * Key concepts:
+ * - A backend turns a shell command into the process to spawn
+ * - "host" runs /bin/bash directly
+ * - "sandbox" runs it in Linux namespaces, with bubblewrap when installed
+ *   and unshare otherwise: the workspace and read-write roots are
+ *   writable, everything else is read-only, /tmp is private and there is
+ *   no network unless enabled
+ * - On every backend, commands only see allowlisted environment variables,
+ *   so API keys and cloud credentials don't leak into them
+ * - More backends (containers, remote hosts) can be registered by name
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { ExecBackend, ExecConfig, ExecRequest, ExecSpawnSpec } from "../types.js";
+import { globToRegExpSource } from "../utils/glob.js";
+
+// Environment variables passed to commands unless config says otherwise
+export const DEFAULT_ENV_ALLOWLIST = [
+  "PATH",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "LANG",
+  "LANGUAGE",
+  "LC_*",
+  "TERM",
+  "COLORTERM",
+  "NO_COLOR",
+  "FORCE_COLOR",
+  "TZ",
+  "TMPDIR",
+  "CI",
+];
+
+const SHELL = "/bin/bash";
+
+const backends = new Map<string, ExecBackend>();
+
+/**
+ * Register an exec backend, replacing any existing one with the same name
+ */
+export function registerExecBackend(backend: ExecBackend): void {
+  backends.set(backend.name, backend);
+}
+
+/**
+ * Resolve an exec backend by name
+ *
+ * @throws If no backend with that name is registered
+ */
+export function resolveExecBackend(name = "host"): ExecBackend {
+  const backend = backends.get(name);
+  if (!backend) {
+    throw new Error(
+      `Unknown exec backend "${name}". Available backends: ${[...backends.keys()].join(", ")}`
+    );
+  }
+  return backend;
+}
+
+/**
+ * Build the environment for a command from the allowlist and config
+ */
+export function buildExecEnv(config?: ExecConfig): Record<string, string> {
+  const patterns = (config?.envAllowlist ?? DEFAULT_ENV_ALLOWLIST).map(
+    (pattern) => new RegExp(`^${globToRegExpSource(pattern, true)}$`)
+  );
+
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value !== undefined && patterns.some((pattern) => pattern.test(name))) {
+      env[name] = value;
+    }
+  }
+  return { ...env, ...config?.env };
+}
+
+export const hostExecBackend: ExecBackend = {
+  name: "host",
+  prepare(request: ExecRequest): ExecSpawnSpec {
+    const windows = process.platform === "win32";
+    return {
+      file: windows ? "cmd" : SHELL,
+      args: windows ? ["/c", request.command] : ["-c", request.command],
+      env: request.env,
+      label: "host",
+    };
+  },
+};
+
+// Mount setup run inside the unshare namespaces, before the command.
+// Arguments: cwd, command, then the writable directories.
+const UNSHARE_SETUP = `
+set -e
+cwd=$1; command=$2; shift 2
+# Give each writable directory its own mount and keep a handle on it
+fd=3
+for dir in "$@"; do
+  mount --bind "$dir" "$dir"
+  eval "exec $fd<\\"\\$dir\\""
+  fd=$((fd + 1))
+done
+# Everything else becomes read-only
+sed 's/\\\\040/ /g' /proc/self/mountinfo | awk '{print $5}' | while read -r mnt; do
+  for dir in "$@"; do [ "$mnt" = "$dir" ] && continue 2; done
+  mount -o remount,bind,ro "$mnt" 2>/dev/null || true
+done
+# Private /tmp; writable directories inside it are bound back from their handles
+# (--no-canonicalize, or mount would resolve the handle to the hidden path)
+mount -t tmpfs -o mode=1777 tmpfs /tmp
+fd=3
+for dir in "$@"; do
+  case "$dir" in
+    /tmp/*) mkdir -p "$dir"; mount --no-canonicalize --bind "/proc/self/fd/$fd" "$dir" ;;
+  esac
+  eval "exec $fd<&-"
+  fd=$((fd + 1))
+done
+cd "$cwd"
+exec ${SHELL} -c "$command"
+`;
+
+export const sandboxExecBackend: ExecBackend = {
+  name: "sandbox",
+  prepare(request: ExecRequest): ExecSpawnSpec {
+    if (process.platform !== "linux") {
+      throw new Error("The sandbox exec backend needs Linux");
+    }
+
+    const network = request.network ? "network" : "no network";
+
+    if (findExecutable("bwrap")) {
+      return {
+        file: "bwrap",
+        args: [
+          "--ro-bind", "/", "/",
+          "--dev", "/dev",
+          "--proc", "/proc",
+          "--tmpfs", "/tmp",
+          ...request.writableDirs.flatMap((dir) => ["--bind", dir, dir]),
+          "--unshare-pid",
+          "--unshare-ipc",
+          "--unshare-uts",
+          ...(request.network ? [] : ["--unshare-net"]),
+          "--die-with-parent",
+          "--new-session",
+          "--chdir", request.cwd,
+          "--", SHELL, "-c", request.command,
+        ],
+        env: request.env,
+        label: `sandbox (bwrap, ${network})`,
+      };
+    }
+
+    if (findExecutable("unshare")) {
+      return {
+        file: "unshare",
+        args: [
+          "--user",
+          "--map-root-user",
+          "--mount",
+          "--pid",
+          "--fork",
+          "--kill-child",
+          "--mount-proc",
+          "--ipc",
+          "--uts",
+          ...(request.network ? [] : ["--net"]),
+          "--", SHELL, "-c", UNSHARE_SETUP, "sandbox",
+          request.cwd, request.command, ...request.writableDirs,
+        ],
+        env: request.env,
+        label: `sandbox (unshare, ${network})`,
+      };
+    }
+
+    throw new Error("The sandbox exec backend needs bwrap (bubblewrap) or unshare (util-linux)");
+  },
+};
+
+/**
+ * Check whether an executable is on the PATH
+ */
+function findExecutable(name: string): boolean {
+  return (process.env.PATH ?? "").split(path.delimiter).some((dir) => {
+    try {
+      fs.accessSync(path.join(dir, name), fs.constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+registerExecBackend(hostExecBackend);
+registerExecBackend(sandboxExecBackend);
@@ -8,19 +8,30 @@
  * - Working directory context
  * - Abort signal handling
  * - Output truncation for large outputs
+ * - Output streamed line by line to ctx.onProgress while the command runs
+ * - Pluggable backends (host or sandbox) with a scrubbed environment
+ * - Background mode for servers and watchers (see process-tools.ts)
+ * - Optional persistent shell per session (see shell-session.ts)
  */
 
 import { spawn } from "node:child_process";
-import type { Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import type { ExecSpawnSpec, Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import { buildExecEnv, resolveExecBackend } from "./exec-backends.js";
+import { resolveWritableDirs } from "./paths.js";
+import { getShellSession, SHELL_SESSION_COMMAND } from "./shell-session.js";
 
 const DEFAULT_TIMEOUT_MS = 120_000; // 2 minutes
 const MAX_OUTPUT_CHARS = 30_000;
 
+type OutputStream = "stdout" | "stderr";
+
 interface ExecOptions {
-  command: string;
+  spawn: ExecSpawnSpec;
   cwd: string;
   timeoutMs?: number;
   abortSignal?: AbortSignal;
+  // Called with output as it arrives
+  onOutput?: (stream: OutputStream, text: string) => void;
 }
 
 async function executeCommand(options: ExecOptions): Promise<{
@@ -29,20 +40,17 @@ async function executeCommand(options: ExecOptions): Promise<{
   exitCode: number | null;
   timedOut: boolean;
 }> {
-  const { command, cwd, timeoutMs = DEFAULT_TIMEOUT_MS, abortSignal } = options;
+  const { spawn: spec, cwd, timeoutMs = DEFAULT_TIMEOUT_MS, abortSignal, onOutput } = options;
 
   return new Promise((resolve) => {
     let stdout = "";
     let stderr = "";
     let timedOut = false;
 
-    // Use shell to execute the command
-    const shell = process.platform === "win32" ? "cmd" : "/bin/bash";
-    const shellArgs = process.platform === "win32" ? ["/c", command] : ["-c", command];
-
-    const child = spawn(shell, shellArgs, {
+    // The backend decides what runs the command (a shell, or a sandbox around one)
+    const child = spawn(spec.file, spec.args, {
       cwd,
-      env: { ...process.env },
+      env: spec.env,
       stdio: ["pipe", "pipe", "pipe"],
     });
 
@@ -65,11 +73,15 @@ async function executeCommand(options: ExecOptions): Promise<{
 
     // Collect output
     child.stdout?.on("data", (data) => {
-      stdout += data.toString();
+      const text = data.toString();
+      stdout += text;
+      onOutput?.("stdout", text);
     });
 
     child.stderr?.on("data", (data) => {
-      stderr += data.toString();
+      const text = data.toString();
+      stderr += text;
+      onOutput?.("stderr", text);
     });
 
     child.on("close", (code) => {
@@ -96,6 +108,37 @@ async function executeCommand(options: ExecOptions): Promise<{
   });
 }
 
+/**
+ * Pass command output on to a progress callback one complete line at a time
+ *
+ * Each stream is split separately so a partial stdout line is never
+ * interleaved with stderr.
+ */
+function createLineWriter(onLine: (line: string) => void): {
+  write: (stream: OutputStream, text: string) => void;
+  flush: () => void;
+} {
+  const pending: Record<OutputStream, string> = { stdout: "", stderr: "" };
+
+  return {
+    write(stream, text) {
+      const lines = (pending[stream] + text).split("\n");
+      pending[stream] = lines.pop() ?? "";
+      for (const line of lines) {
+        onLine(`${line}\n`);
+      }
+    },
+    flush() {
+      for (const stream of ["stdout", "stderr"] as const) {
+        if (pending[stream]) {
+          onLine(`${pending[stream]}\n`);
+          pending[stream] = "";
+        }
+      }
+    },
+  };
+}
+
 function truncateOutput(output: string, maxChars: number): string {
   if (output.length <= maxChars) {
     return output;
@@ -111,7 +154,8 @@ function truncateOutput(output: string, maxChars: number): string {
 
 export const execTool: Tool = {
   name: "exec",
-  description: "Execute a shell command. Use this for running programs, scripts, git commands, npm, etc.",
+  description:
+    "Execute a shell command. Use this for running programs, scripts, git commands, npm, etc. If the result says it ran in a persistent shell, the working directory and exported variables carry over to the next call.",
   parameters: {
     type: "object",
     properties: {
@@ -127,10 +171,20 @@ export const execTool: Tool = {
         type: "number",
         description: "Timeout in milliseconds. Default is 120000 (2 minutes). Max is 600000 (10 minutes).",
       },
+      background: {
+        type: "boolean",
+        description:
+          "Start the command and return a handle instead of waiting for it to exit (for dev servers, watchers, etc.). Use process_poll, process_input and process_kill with the handle. Background processes are stopped when the run ends. The timeout does not apply.",
+      },
     },
     required: ["command"],
   },
 
+  async preview(args: Record<string, unknown>): Promise<string> {
+    const description = args.description ? `# ${args.description as string}\n` : "";
+    return `${description}$ ${args.command as string}`;
+  },
+
   async execute(
     args: Record<string, unknown>,
     ctx: ToolContext
@@ -150,13 +204,61 @@ export const execTool: Tool = {
     }
 
     try {
-      const result = await executeCommand({
-        command,
-        cwd: ctx.workspaceDir,
-        timeoutMs,
-        abortSignal: ctx.abortSignal,
+      const writableDirs = await resolveWritableDirs(ctx);
+      // A persistent shell is prepared like a command and fed commands on stdin
+      const persistent =
+        !!ctx.exec?.persistentShell && !args.background && process.platform !== "win32";
+      const spec = await resolveExecBackend(ctx.exec?.backend).prepare({
+        command: persistent ? SHELL_SESSION_COMMAND : command,
+        cwd: writableDirs[0],
+        writableDirs,
+        env: buildExecEnv(ctx.exec),
+        network: ctx.exec?.network ?? false,
       });
 
+      if (args.background) {
+        if (!ctx.processes) {
+          return {
+            content: "Error: Background processes are not available here",
+            isError: true,
+          };
+        }
+        const info = ctx.processes.start(command, spec, writableDirs[0]);
+        return {
+          content: [
+            `Started background process ${info.id} (pid ${info.pid ?? "?"})`,
+            "Use process_poll to read its output, process_input to write to its stdin and process_kill to stop it. It is stopped when the run ends.",
+            `Backend: ${spec.label}`,
+          ].join("\n\n"),
+          isError: false,
+        };
+      }
+
+      const progress = ctx.onProgress ? createLineWriter(ctx.onProgress) : undefined;
+      const onOutput = progress?.write;
+
+      const notes: string[] = [];
+      let result: { stdout: string; stderr: string; exitCode: number | null; timedOut: boolean };
+      if (persistent) {
+        const shell = getShellSession(ctx.sessionId ?? "default", spec, writableDirs[0]);
+        const shellResult = await shell.run(command, timeoutMs, ctx.abortSignal, onOutput);
+        if (shellResult.restarted) {
+          notes.push("The shell was restarted: the next command starts in the workspace with a fresh environment");
+        } else if (shellResult.cwd && shellResult.cwd !== writableDirs[0]) {
+          notes.push(`Working directory: ${shellResult.cwd}`);
+        }
+        result = shellResult;
+      } else {
+        result = await executeCommand({
+          spawn: spec,
+          cwd: writableDirs[0],
+          timeoutMs,
+          abortSignal: ctx.abortSignal,
+          onOutput,
+        });
+      }
+      progress?.flush();
+
       const { stdout, stderr, exitCode, timedOut } = result;
 
       // Build output
@@ -184,6 +286,9 @@ export const execTool: Tool = {
         parts.push("(no output)");
       }
 
+      parts.push(...notes);
+      parts.push(`Backend: ${spec.label}${persistent ? ", persistent shell" : ""}`);
+
       return {
         content: parts.join("\n\n"),
         isError: timedOut || (exitCode !== null && exitCode !== 0),
@@ -1,52 +1,153 @@
 /**
  * Grep Tool - Search file contents for patterns
+ *
+ * Directories are walked with the shared ignore engine (see utils/ignore.ts),
+ * so .gitignore'd and hidden files are skipped unless asked for.
+ *
+ * Key features:
+ * - Output modes: matching lines with context, file names, or counts per file
+ * - offset/head_limit pagination, with the total reported so the model can
+ *   ask for the next page
+ * - Multiline patterns that span lines
+ * - File type (`ts`, `py`, ...) and glob filters
+ * - Files are read with bounded concurrency
  */
 
 import fs from "node:fs/promises";
 import path from "node:path";
 import type { Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import { resolveToolPath } from "./paths.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { matchesGlob } from "../utils/glob.js";
+import { walkFiles } from "../utils/ignore.js";
 
-async function* walkDir(
-  dir: string,
-  options: { maxDepth?: number; pattern?: RegExp }
-): AsyncGenerator<string> {
-  const { maxDepth = 10, pattern } = options;
+// Files read at once
+const READ_CONCURRENCY = 8;
 
-  async function* walk(currentDir: string, depth: number): AsyncGenerator<string> {
-    if (depth > maxDepth) return;
+// Files searched in one call; narrower paths, globs or types search the rest
+const MAX_FILES = 5000;
 
-    try {
-      const entries = await fs.readdir(currentDir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        // Skip hidden files and common ignore patterns
-        if (entry.name.startsWith(".")) continue;
-        if (entry.name === "node_modules") continue;
-        if (entry.name === "__pycache__") continue;
-        if (entry.name === "dist") continue;
-        if (entry.name === "build") continue;
-
-        const fullPath = path.join(currentDir, entry.name);
-
-        if (entry.isDirectory()) {
-          yield* walk(fullPath, depth + 1);
-        } else if (entry.isFile()) {
-          if (!pattern || pattern.test(entry.name)) {
-            yield fullPath;
-          }
-        }
+// Entries (matches, files or counts) returned when head_limit is not set
+const DEFAULT_HEAD_LIMIT = 100;
+
+// File types for the type filter
+const FILE_TYPES: Record<string, string[]> = {
+  js: ["*.{js,jsx,mjs,cjs}"],
+  ts: ["*.{ts,tsx,mts,cts}"],
+  py: ["*.{py,pyi}"],
+  go: ["*.go"],
+  rust: ["*.rs"],
+  java: ["*.java"],
+  kotlin: ["*.{kt,kts}"],
+  c: ["*.{c,h}"],
+  cpp: ["*.{cpp,cc,cxx,hpp,hh,hxx,h}"],
+  cs: ["*.cs"],
+  ruby: ["*.rb"],
+  php: ["*.php"],
+  swift: ["*.swift"],
+  sh: ["*.{sh,bash,zsh}"],
+  html: ["*.{html,htm}"],
+  css: ["*.{css,scss,sass,less}"],
+  json: ["*.json"],
+  yaml: ["*.{yml,yaml}"],
+  toml: ["*.toml"],
+  md: ["*.{md,markdown,mdx}"],
+  sql: ["*.sql"],
+};
+
+type OutputMode = "content" | "files_with_matches" | "count";
+
+// A match, as 0-based first and last line numbers
+interface MatchSpan {
+  start: number;
+  end: number;
+}
+
+interface FileMatches {
+  file: string;
+  spans: MatchSpan[];
+}
+
+/**
+ * Find the lines a pattern matches in a file's content
+ *
+ * Without multiline, each line is tested on its own. With it, the pattern
+ * runs over the whole file; matches starting on the same line count once.
+ */
+function findMatches(content: string, regex: RegExp, multiline: boolean): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+
+  if (!multiline) {
+    content.split("\n").forEach((line, i) => {
+      if (regex.test(line)) {
+        spans.push({ start: i, end: i });
       }
-    } catch {
-      // Skip directories we can't read
+    });
+    return spans;
+  }
+
+  let line = 0;
+  let scanned = 0;
+  for (const match of content.matchAll(regex)) {
+    line += countNewlines(content, scanned, match.index);
+    scanned = match.index;
+    if (spans.length > 0 && spans[spans.length - 1].start === line) continue;
+
+    // A match ending with a newline doesn't reach into the next line
+    const text = match[0].replace(/\n$/, "");
+    spans.push({ start: line, end: line + countNewlines(text, 0, text.length) });
+  }
+  return spans;
+}
+
+function countNewlines(text: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = text.indexOf("\n", from); i !== -1 && i < to; i = text.indexOf("\n", i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Format matches for content mode, with context lines around them
+ */
+function formatMatches(
+  relativePath: string,
+  lines: string[],
+  spans: MatchSpan[],
+  before: number,
+  after: number
+): string[] {
+  const output: string[] = [];
+
+  for (const { start, end } of spans) {
+    if (before === 0 && after === 0 && start === end) {
+      output.push(`${relativePath}:${start + 1}: ${lines[start]}`);
+      continue;
+    }
+
+    output.push(`${relativePath}:${start + 1}${end > start ? `-${end + 1}` : ""}:`);
+    const first = Math.max(0, start - before);
+    const last = Math.min(lines.length - 1, end + after);
+    for (let j = first; j <= last; j++) {
+      const prefix = j >= start && j <= end ? ">" : " ";
+      output.push(`${prefix} ${j + 1}: ${lines[j]}`);
     }
+    output.push("");
   }
 
-  yield* walk(dir, 0);
+  return output;
+}
+
+function plural(count: number, word: string, suffix = "s"): string {
+  return `${count} ${word}${count === 1 ? "" : suffix}`;
 }
 
 export const grepTool: Tool = {
   name: "grep",
-  description: "Search for a pattern in files. Supports regex patterns.",
+  description:
+    "Search for a pattern in files. Supports regex patterns. Returns matching lines (content), only file names (files_with_matches) or counts per file (count); page through long results with offset and head_limit.",
+  readOnly: true,
   parameters: {
     type: "object",
     properties: {
@@ -60,16 +161,58 @@ export const grepTool: Tool = {
       },
       glob: {
         type: "string",
-        description: "Glob pattern to filter files (e.g., '*.ts', '*.py')",
+        description:
+          "Glob pattern to filter files, matched against paths relative to the search path. Patterns without a '/' match file names at any depth (e.g. '*.ts', '*.{ts,tsx}', 'src/**/*.test.ts')",
+      },
+      type: {
+        type: "string",
+        description: "Only search files of this type (e.g. 'ts' for .ts/.tsx, 'py', 'go'). Combines with glob.",
+        enum: Object.keys(FILE_TYPES),
+      },
+      output_mode: {
+        type: "string",
+        description:
+          "'content' shows matching lines (default), 'files_with_matches' only the files that match, 'count' the number of matches per file.",
+        enum: ["content", "files_with_matches", "count"],
       },
       case_insensitive: {
         type: "boolean",
         description: "If true, search is case-insensitive. Default is false.",
       },
+      multiline: {
+        type: "boolean",
+        description:
+          "Let the pattern span lines: '.' also matches newlines and ^/$ match at line boundaries. Default is false.",
+      },
       context: {
         type: "number",
         description: "Number of lines of context to show around matches. Default is 0.",
       },
+      before_context: {
+        type: "number",
+        description: "Lines of context before each match (overrides context).",
+      },
+      after_context: {
+        type: "number",
+        description: "Lines of context after each match (overrides context).",
+      },
+      offset: {
+        type: "number",
+        description: "Skip this many entries (matches, files or counts) before returning results. Default is 0.",
+      },
+      head_limit: {
+        type: "number",
+        description: "Return at most this many entries. Default is 100; 0 means no limit.",
+      },
+      include_hidden: {
+        type: "boolean",
+        description: "Also search hidden files and directories (names starting with '.'). Default is false.",
+      },
+      include_ignored: {
+        type: "boolean",
+        description:
+          "Also search files excluded by .gitignore, .ignore, .mini-owl/ignore and the defaults (node_modules, dist, build, .git). Default is false.",
+      },
     },
     required: ["pattern"],
   },
@@ -81,91 +224,139 @@ export const grepTool: Tool = {
     const searchPattern = args.pattern as string;
     const searchPath = (args.path as string) || ctx.workspaceDir;
     const glob = args.glob as string | undefined;
+    const fileType = args.type as string | undefined;
+    const outputMode = (args.output_mode as OutputMode) ?? "content";
     const caseInsensitive = (args.case_insensitive as boolean) ?? false;
+    const multiline = (args.multiline as boolean) ?? false;
     const contextLines = (args.context as number) ?? 0;
+    const before = Math.max(0, (args.before_context as number) ?? contextLines);
+    const after = Math.max(0, (args.after_context as number) ?? contextLines);
+    const offset = Math.max(0, (args.offset as number) ?? 0);
+    const headLimit = Math.max(0, (args.head_limit as number) ?? DEFAULT_HEAD_LIMIT);
 
     // Resolve path
-    const resolvedPath = path.isAbsolute(searchPath)
-      ? searchPath
-      : path.join(ctx.workspaceDir, searchPath);
+    const resolved = await resolveToolPath(ctx, searchPath, "read");
+    if ("error" in resolved) {
+      return { content: resolved.error, isError: true };
+    }
+    const resolvedPath = resolved.path;
 
     try {
-      // Build regex
-      const flags = caseInsensitive ? "gi" : "g";
+      // Build regex; multiline patterns run over whole files
+      const flags = (caseInsensitive ? "i" : "") + (multiline ? "gms" : "");
       const regex = new RegExp(searchPattern, flags);
 
-      // Build file filter from glob
-      let filePattern: RegExp | undefined;
-      if (glob) {
-        const globRegex = glob
-          .replace(/\./g, "\\.")
-          .replace(/\*/g, ".*")
-          .replace(/\?/g, ".");
-        filePattern = new RegExp(`^${globRegex}$`);
-      }
-
       // Check if searching a single file or directory
       const stats = await fs.stat(resolvedPath);
       const files: string[] = [];
+      let filesTruncated = false;
 
       if (stats.isFile()) {
         files.push(resolvedPath);
       } else {
-        for await (const file of walkDir(resolvedPath, { pattern: filePattern })) {
-          files.push(file);
-          if (files.length > 1000) break; // Limit file count
+        const walk = walkFiles(resolvedPath, {
+          workspaceDir: ctx.workspaceDir,
+          glob: glob || undefined,
+          includeHidden: (args.include_hidden as boolean) ?? false,
+          includeIgnored: (args.include_ignored as boolean) ?? false,
+        });
+        for await (const file of walk) {
+          if (fileType && !matchesGlob(file.relativePath, FILE_TYPES[fileType])) continue;
+          // Files the tool policy denies are left out of directory searches
+          if (ctx.isPathDenied?.(file.path)) continue;
+          if (files.length >= MAX_FILES) {
+            filesTruncated = true;
+            break;
+          }
+          files.push(file.path);
         }
       }
 
-      const results: string[] = [];
-      let totalMatches = 0;
-      const maxMatches = 100;
-
-      for (const file of files) {
-        if (totalMatches >= maxMatches) break;
-
-        try {
-          const content = await fs.readFile(file, "utf-8");
-          const lines = content.split("\n");
-          const relativePath = path.relative(ctx.workspaceDir, file);
-
-          for (let i = 0; i < lines.length && totalMatches < maxMatches; i++) {
-            if (regex.test(lines[i])) {
-              totalMatches++;
-
-              // Get context lines
-              const startLine = Math.max(0, i - contextLines);
-              const endLine = Math.min(lines.length - 1, i + contextLines);
-
-              if (contextLines > 0) {
-                results.push(`${relativePath}:${i + 1}:`);
-                for (let j = startLine; j <= endLine; j++) {
-                  const prefix = j === i ? ">" : " ";
-                  results.push(`${prefix} ${j + 1}: ${lines[j]}`);
-                }
-                results.push("");
-              } else {
-                results.push(`${relativePath}:${i + 1}: ${lines[i]}`);
-              }
-
-              // Reset regex lastIndex
-              regex.lastIndex = 0;
-            }
+      const searched = await mapWithConcurrency(
+        files,
+        READ_CONCURRENCY,
+        async (file): Promise<FileMatches | undefined> => {
+          try {
+            const content = await fs.readFile(file, "utf-8");
+            return { file, spans: findMatches(content, regex, multiline) };
+          } catch {
+            // Skip files we can't read
+            return undefined;
           }
-        } catch {
-          // Skip files we can't read (binary, etc.)
         }
-      }
+      );
+      const matched = searched.filter(
+        (result): result is FileMatches => !!result && result.spans.length > 0
+      );
 
-      if (results.length === 0) {
+      if (matched.length === 0) {
         return { content: `No matches found for pattern: ${searchPattern}` };
       }
 
-      const header = totalMatches >= maxMatches
-        ? `Found ${maxMatches}+ matches (truncated):`
-        : `Found ${totalMatches} match${totalMatches === 1 ? "" : "es"}:`;
+      // File paths are canonical, so show them relative to the real workspace
+      const workspaceDir = await fs.realpath(ctx.workspaceDir);
+      const relative = (file: string) => path.relative(workspaceDir, file);
+      const totalMatches = matched.reduce((sum, result) => sum + result.spans.length, 0);
+      const summary = `${plural(totalMatches, "match", "es")} in ${plural(matched.length, "file")}`;
+
+      const end = headLimit === 0 ? Infinity : offset + headLimit;
+      let entries: string[];
+      let total: number;
+      let unit: string;
+
+      if (outputMode === "files_with_matches") {
+        total = matched.length;
+        unit = "files";
+        entries = matched.slice(offset, end).map((result) => relative(result.file));
+      } else if (outputMode === "count") {
+        total = matched.length;
+        unit = "files";
+        entries = matched
+          .slice(offset, end)
+          .map((result) => `${relative(result.file)}: ${result.spans.length}`);
+      } else {
+        total = totalMatches;
+        unit = "matches";
+        entries = [];
+        // Only files with matches on this page are read again for their lines
+        let index = 0;
+        for (const result of matched) {
+          const first = Math.max(offset - index, 0);
+          const last = Math.min(end - index, result.spans.length);
+          index += result.spans.length;
+          if (first >= last) continue;
+
+          try {
+            const lines = (await fs.readFile(result.file, "utf-8")).split("\n");
+            const spans = result.spans.slice(first, last);
+            entries.push(...formatMatches(relative(result.file), lines, spans, before, after));
+          } catch {
+            // The file went away since it was searched
+          }
+          if (index >= end) break;
+        }
+      }
+
+      const notes: string[] = [];
+      const shownEnd = Math.min(end, total);
+      if (offset > 0 || shownEnd < total) {
+        notes.push(
+          offset >= total
+            ? `Offset ${offset} is past the last of ${total} ${unit}.`
+            : `Showing ${unit} ${offset + 1}-${shownEnd} of ${total}.`
+        );
+      }
+      if (shownEnd < total) {
+        notes.push(`Use offset=${shownEnd} to see more.`);
+      }
+      if (filesTruncated) {
+        notes.push(
+          `Only the first ${MAX_FILES} files were searched; narrow the path, glob or type to search the rest.`
+        );
+      }
 
-      return { content: `${header}\n\n${results.join("\n")}` };
+      const header = [`Found ${summary}:`, ...notes].join(" ");
+      return { content: entries.length > 0 ? `${header}\n\n${entries.join("\n")}` : header };
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
       if (err.code === "ENOENT") {
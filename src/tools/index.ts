@@ -5,7 +5,7 @@
  *
  * Tools are organized by category:
  * - File operations: read, write, edit, ls, grep
- * - Execution: exec
+ * - Execution: exec, plus process_* for background commands
  */
 
 import type { Tool } from "../types.js";
@@ -15,6 +15,12 @@ import { editTool } from "./edit-tool.js";
 import { execTool } from "./exec-tool.js";
 import { lsTool } from "./ls-tool.js";
 import { grepTool } from "./grep-tool.js";
+import {
+  processListTool,
+  processPollTool,
+  processInputTool,
+  processKillTool,
+} from "./process-tools.js";
 
 // Export individual tools
 export { readTool } from "./read-tool.js";
@@ -23,6 +29,12 @@ export { editTool } from "./edit-tool.js";
 export { execTool } from "./exec-tool.js";
 export { lsTool } from "./ls-tool.js";
 export { grepTool } from "./grep-tool.js";
+export {
+  processListTool,
+  processPollTool,
+  processInputTool,
+  processKillTool,
+} from "./process-tools.js";
 
 /**
  * All available tools
@@ -34,6 +46,10 @@ export const allTools: Tool[] = [
   execTool,
   lsTool,
   grepTool,
+  processListTool,
+  processPollTool,
+  processInputTool,
+  processKillTool,
 ];
 
 /**
@@ -5,10 +5,12 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import type { Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import { resolveToolPath } from "./paths.js";
 
 export const lsTool: Tool = {
   name: "ls",
   description: "List directory contents with file information.",
+  readOnly: true,
   parameters: {
     type: "object",
     properties: {
@@ -27,9 +29,11 @@ export const lsTool: Tool = {
     const dirPath = (args.path as string) || ctx.workspaceDir;
 
     // Resolve path relative to workspace
-    const resolvedPath = path.isAbsolute(dirPath)
-      ? dirPath
-      : path.join(ctx.workspaceDir, dirPath);
+    const resolved = await resolveToolPath(ctx, dirPath, "read");
+    if ("error" in resolved) {
+      return { content: resolved.error, isError: true };
+    }
+    const resolvedPath = resolved.path;
 
     try {
       const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
@@ -0,0 +1,144 @@
+/**
+ * Tool Paths - Resolve file tool paths inside the workspace
+ *
+ * Inspired by OpenClaw's workspace sandboxing for file tools
+ *
+ * Key concepts:
+ * - Paths are resolved against the workspace and canonicalized with
+ *   realpath, so `../` and symlinks can't lead outside it
+ * - Paths that don't exist yet (a file about to be written) are checked
+ *   through their nearest existing parent; dangling symlinks are followed
+ * - Config can grant extra roots, read-only or read-write; the most
+ *   specific root containing a path decides its access
+ * - Every file tool reports a denied path with the same message
+ * - The workspace's .mini-owl directory (policy, credentials, audit log)
+ *   is never writable, so the agent can't loosen its own limits
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ToolContext, WorkspaceRoot } from "../types.js";
+
+// Symlinks followed by hand before giving up (matches Linux's limit)
+const MAX_SYMLINK_HOPS = 40;
+
+// Agent configuration inside the workspace that tools may read but not write
+const PROTECTED_DIR = ".mini-owl";
+
+export type PathAccess = "read" | "write";
+
+/**
+ * Resolve a path from a tool call and check the tool may use it
+ *
+ * @param filePath - Relative to the workspace, or absolute
+ * @returns The canonical path, or an error message for the model
+ */
+export async function resolveToolPath(
+  ctx: ToolContext,
+  filePath: string,
+  access: PathAccess
+): Promise<{ path: string } | { error: string }> {
+  let resolved: string;
+  let roots: Array<{ path: string; access: "read" | "readwrite" }>;
+  try {
+    resolved = await canonicalize(path.resolve(ctx.workspaceDir, filePath));
+    roots = await resolveRoots(ctx);
+  } catch (error) {
+    return { error: `Error: Cannot resolve path ${filePath}: ${(error as Error).message}` };
+  }
+
+  // The deepest root wins, so a read-only root can sit inside the workspace
+  const root = roots
+    .filter((candidate) => isWithin(resolved, candidate.path))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+  if (!root) {
+    const extra = ctx.roots?.length ? " and the allowed directories" : "";
+    return { error: `Error: Access denied: ${filePath} is outside the workspace${extra}` };
+  }
+  if (access === "write" && root.access === "read") {
+    return { error: `Error: Access denied: ${filePath} is in a read-only directory (${root.path})` };
+  }
+  if (access === "write" && isWithin(resolved, path.join(roots[0].path, PROTECTED_DIR))) {
+    return {
+      error: `Error: Access denied: ${filePath} is in ${PROTECTED_DIR}, which holds the agent's policy and credentials`,
+    };
+  }
+
+  return { path: resolved };
+}
+
+/**
+ * Get the canonical directories tools may write to: the workspace and
+ * any read-write roots
+ */
+export async function resolveWritableDirs(ctx: ToolContext): Promise<string[]> {
+  const roots = await resolveRoots(ctx);
+  return roots.filter((root) => root.access === "readwrite").map((root) => root.path);
+}
+
+/**
+ * Canonicalize the workspace and extra roots
+ *
+ * Extra roots that don't exist are dropped.
+ */
+async function resolveRoots(
+  ctx: ToolContext
+): Promise<Array<{ path: string; access: "read" | "readwrite" }>> {
+  const roots: Array<{ path: string; access: "read" | "readwrite" }> = [
+    { path: await fs.realpath(ctx.workspaceDir), access: "readwrite" },
+  ];
+
+  for (const root of ctx.roots ?? []) {
+    try {
+      roots.push({
+        path: await fs.realpath(path.resolve(ctx.workspaceDir, root.path)),
+        access: root.access ?? "read",
+      });
+    } catch {
+      // Missing roots grant nothing
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Resolve a path to its real location, even if it doesn't exist yet
+ */
+async function canonicalize(target: string, hops = 0): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  // A dangling symlink would be created through on write; follow it
+  const stats = await fs.lstat(target).catch(() => undefined);
+  if (stats?.isSymbolicLink()) {
+    if (hops >= MAX_SYMLINK_HOPS) {
+      throw new Error("too many levels of symbolic links");
+    }
+    const link = await fs.readlink(target);
+    return canonicalize(path.resolve(path.dirname(target), link), hops + 1);
+  }
+
+  const parent = path.dirname(target);
+  if (parent === target) {
+    return target;
+  }
+  return path.join(await canonicalize(parent, hops), path.basename(target));
+}
+
+/**
+ * Check whether a path is a root or inside it
+ */
+function isWithin(target: string, root: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+  );
+}
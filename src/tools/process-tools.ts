@@ -0,0 +1,172 @@
+/**
+ * Process Tools - Manage background processes started by exec
+ *
+ * Inspired by OpenClaw's process tool (poll, write, kill for background exec)
+ *
+ * Key features:
+ * - process_list: every background process in this run and its state
+ * - process_poll: output written since the last poll, optionally waiting for it
+ * - process_input: write to a process's stdin
+ * - process_kill: stop a process and the processes it started
+ */
+
+import type { Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import { formatProcessStatus } from "./background.js";
+
+// Longest a single poll may wait for output
+const MAX_POLL_WAIT_MS = 60_000;
+
+const NO_PROCESSES: ToolExecutionResult = {
+  content: "Error: Background processes are not available here",
+  isError: true,
+};
+
+const idParameter = {
+  type: "string",
+  description: "The process handle returned by exec, e.g. bg-1",
+};
+
+export const processListTool: Tool = {
+  name: "process_list",
+  description: "List background processes started with exec in this run, with their status.",
+  parameters: {
+    type: "object",
+    properties: {},
+  },
+  readOnly: true,
+
+  async execute(_args: Record<string, unknown>, ctx: ToolContext): Promise<ToolExecutionResult> {
+    if (!ctx.processes) {
+      return NO_PROCESSES;
+    }
+
+    const processes = ctx.processes.list();
+    if (processes.length === 0) {
+      return { content: "No background processes", isError: false };
+    }
+
+    const lines = processes.map((info) => {
+      const seconds = Math.round((Date.now() - info.startedAt.getTime()) / 1000);
+      return `${info.id}  ${formatProcessStatus(info)}  ${seconds}s  $ ${info.command}`;
+    });
+    return { content: lines.join("\n"), isError: false };
+  },
+};
+
+export const processPollTool: Tool = {
+  name: "process_poll",
+  description:
+    "Read the stdout and stderr a background process has written since the last poll, and its status. Use wait to give a starting server time to print something.",
+  parameters: {
+    type: "object",
+    properties: {
+      id: idParameter,
+      wait: {
+        type: "number",
+        description: "If there is no new output, wait up to this many milliseconds for some. Default is 0. Max is 60000.",
+      },
+    },
+    required: ["id"],
+  },
+  readOnly: true,
+  // A poll takes the output it returns; two at once would split it
+  concurrencySafe: false,
+
+  async execute(args: Record<string, unknown>, ctx: ToolContext): Promise<ToolExecutionResult> {
+    if (!ctx.processes) {
+      return NO_PROCESSES;
+    }
+
+    const id = args.id as string;
+    const waitMs = Math.min(Math.max((args.wait as number) ?? 0, 0), MAX_POLL_WAIT_MS);
+    const result = await ctx.processes.read(id, waitMs, ctx.abortSignal);
+    if ("error" in result) {
+      return { content: result.error, isError: true };
+    }
+
+    const parts = [`${id}: ${formatProcessStatus(result.info)}`];
+    if (result.stdout) {
+      parts.push(`stdout:\n${result.stdout}`);
+    }
+    if (result.stderr) {
+      parts.push(`stderr:\n${result.stderr}`);
+    }
+    if (!result.stdout && !result.stderr) {
+      parts.push("(no new output)");
+    }
+    return { content: parts.join("\n\n"), isError: false };
+  },
+};
+
+export const processInputTool: Tool = {
+  name: "process_input",
+  description:
+    "Write text to a background process's stdin. Include a trailing newline to submit a line.",
+  parameters: {
+    type: "object",
+    properties: {
+      id: idParameter,
+      input: {
+        type: "string",
+        description: "Text to write",
+      },
+      end: {
+        type: "boolean",
+        description: "Close stdin after writing (sends end-of-file). Default is false.",
+      },
+    },
+    required: ["id", "input"],
+  },
+
+  async preview(args: Record<string, unknown>): Promise<string> {
+    return `${args.id as string} <<< ${JSON.stringify(args.input)}${args.end ? " (then close stdin)" : ""}`;
+  },
+
+  async execute(args: Record<string, unknown>, ctx: ToolContext): Promise<ToolExecutionResult> {
+    if (!ctx.processes) {
+      return NO_PROCESSES;
+    }
+
+    const id = args.id as string;
+    const input = args.input as string;
+    const result = ctx.processes.write(id, input, (args.end as boolean) ?? false);
+    if ("error" in result) {
+      return { content: result.error, isError: true };
+    }
+    return {
+      content: `Wrote ${input.length} characters to ${id}${args.end ? " and closed stdin" : ""}. Use process_poll to read the response.`,
+      isError: false,
+    };
+  },
+};
+
+export const processKillTool: Tool = {
+  name: "process_kill",
+  description:
+    "Stop a background process and everything it started. Sends SIGTERM, then SIGKILL if it is still running after 5 seconds.",
+  parameters: {
+    type: "object",
+    properties: {
+      id: idParameter,
+      signal: {
+        type: "string",
+        description: "Signal to send first. Default is SIGTERM.",
+        enum: ["SIGTERM", "SIGINT", "SIGKILL", "SIGHUP"],
+      },
+    },
+    required: ["id"],
+  },
+
+  async execute(args: Record<string, unknown>, ctx: ToolContext): Promise<ToolExecutionResult> {
+    if (!ctx.processes) {
+      return NO_PROCESSES;
+    }
+
+    const id = args.id as string;
+    const result = await ctx.processes.kill(id, (args.signal as NodeJS.Signals) ?? "SIGTERM");
+    if ("error" in result) {
+      return { content: result.error, isError: true };
+    }
+    return { content: `${id}: ${formatProcessStatus(result.info)}`, isError: false };
+  },
+};
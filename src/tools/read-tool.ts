@@ -2,15 +2,20 @@
  * Read Tool - Read file contents
  *
  * Inspired by OpenClaw's read tool implementation
+ *
+ * PNG, JPEG, GIF and WebP files are returned as images the model can see.
  */
 
 import fs from "node:fs/promises";
-import path from "node:path";
 import type { Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import { detectImageType, toImageBlock } from "../utils/images.js";
+import { resolveToolPath } from "./paths.js";
 
 export const readTool: Tool = {
   name: "read",
-  description: "Read the contents of a file. Returns the file content with line numbers.",
+  description:
+    "Read the contents of a file. Returns the file content with line numbers. Image files (PNG, JPEG, GIF, WebP) are returned as images.",
+  readOnly: true,
   parameters: {
     type: "object",
     properties: {
@@ -39,12 +44,24 @@ export const readTool: Tool = {
     const limit = (args.limit as number) ?? 2000;
 
     // Resolve path relative to workspace
-    const resolvedPath = path.isAbsolute(filePath)
-      ? filePath
-      : path.join(ctx.workspaceDir, filePath);
+    const resolved = await resolveToolPath(ctx, filePath, "read");
+    if ("error" in resolved) {
+      return { content: resolved.error, isError: true };
+    }
+    const resolvedPath = resolved.path;
 
     try {
-      const content = await fs.readFile(resolvedPath, "utf-8");
+      const data = await fs.readFile(resolvedPath);
+
+      if (detectImageType(data)) {
+        const image = toImageBlock(data, filePath);
+        const size = `${Math.ceil(data.length / 1024)} KB`;
+        return {
+          content: [{ type: "text", text: `Image: ${filePath} (${image.mediaType}, ${size})` }, image],
+        };
+      }
+
+      const content = data.toString("utf-8");
       const lines = content.split("\n");
 
       // Apply offset and limit
@@ -0,0 +1,305 @@
+/**
+ * Shell Sessions - A persistent shell per agent session for exec
+ *
+ * Inspired by OpenClaw's persistent exec shells
+ *
+ * Key concepts:
+ * - Opt-in with `exec.persistentShell`; commands then run in one long-lived
+ *   bash per session, so `cd`, `export` and `source venv/bin/activate`
+ *   carry over to the next call
+ * - Each command is written to the shell's stdin between random start and
+ *   end markers on stdout and stderr, so its output is framed even if it
+ *   lacks a final newline or a previous command left a job printing; the
+ *   end marker line carries the exit code and working directory
+ * - Commands read stdin from /dev/null so they can't swallow the next one
+ * - A shell that times out, is cancelled or exits (e.g. `exit 1`) is
+ *   discarded; the next command starts a fresh one in the workspace
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import type { ExecSpawnSpec } from "../types.js";
+import { signalProcessGroup } from "./background.js";
+
+// What the backend runs to get a shell that reads commands from stdin
+export const SHELL_SESSION_COMMAND = "exec /bin/bash --noprofile --norc";
+
+export interface ShellCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  // The shell's working directory after the command
+  cwd?: string;
+  // The shell was stopped or exited; its state is gone
+  restarted: boolean;
+}
+
+// Shells by session key
+const shells = new Map<string, ShellSession>();
+let exitHookInstalled = false;
+
+/**
+ * Get the shell for a session, starting a new one if the session has none
+ * or its spawn settings changed
+ */
+export function getShellSession(key: string, spec: ExecSpawnSpec, cwd: string): ShellSession {
+  const signature = JSON.stringify({ spec, cwd });
+  const existing = shells.get(key);
+  if (existing?.signature === signature) {
+    return existing;
+  }
+
+  existing?.close();
+  const shell = new ShellSession(spec, cwd, signature);
+  shells.set(key, shell);
+  installExitHook();
+  return shell;
+}
+
+/**
+ * Stop a session's shell, if it has one
+ */
+export function closeShellSession(key: string): boolean {
+  const shell = shells.get(key);
+  shell?.close();
+  return shells.delete(key);
+}
+
+/**
+ * Stop every session's shell
+ */
+export function closeAllShellSessions(): void {
+  for (const shell of shells.values()) {
+    shell.close();
+  }
+  shells.clear();
+}
+
+/**
+ * A long-lived bash that runs one command at a time
+ */
+export class ShellSession {
+  private child?: ChildProcess;
+  private stdout = "";
+  private stderr = "";
+  private exitCode: number | null = null;
+  private exited = false;
+  private onChange?: () => void;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private spec: ExecSpawnSpec,
+    private cwd: string,
+    readonly signature: string
+  ) {}
+
+  /**
+   * Run a command once the previous one has finished
+   */
+  run(
+    command: string,
+    timeoutMs: number,
+    abortSignal?: AbortSignal,
+    onOutput?: (stream: "stdout" | "stderr", text: string) => void
+  ): Promise<ShellCommandResult> {
+    const result = this.queue.then(() =>
+      this.runNow(command, timeoutMs, abortSignal, onOutput)
+    );
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Stop the shell; the next command starts a new one
+   */
+  close(): void {
+    if (this.child && !this.exited) {
+      signalProcessGroup(this.child, "SIGKILL");
+    }
+    this.child = undefined;
+    this.exited = true;
+    // A command still waiting on this shell ends now
+    this.onChange?.();
+  }
+
+  private async runNow(
+    command: string,
+    timeoutMs: number,
+    abortSignal: AbortSignal | undefined,
+    onOutput: ((stream: "stdout" | "stderr", text: string) => void) | undefined
+  ): Promise<ShellCommandResult> {
+    if (!this.child || this.exited) {
+      this.start();
+    }
+    const child = this.child!;
+
+    const marker = `__MINI_OWL_${randomUUID().replace(/-/g, "")}__`;
+    child.stdin?.write(
+      `printf '${marker}\\n'; printf '${marker}\\n' >&2\n` +
+        `eval ${shellQuote(command)} < /dev/null\n` +
+        `printf '\\n${marker} %d %s\\n' "$?" "$PWD"\n` +
+        `printf '\\n${marker}\\n' >&2\n`
+    );
+
+    let timedOut = false;
+    let aborted = false;
+    let stdout: FramedOutput = { text: "", started: false };
+    let stderr: FramedOutput = { text: "", started: false };
+    // Framed output already passed to onOutput
+    const reported = { stdout: 0, stderr: 0 };
+    const report = (stream: "stdout" | "stderr", output: FramedOutput, done: boolean) => {
+      // Output that may turn out to be the start of the end marker waits
+      // until the next chunk shows whether it is
+      const length =
+        output.end || done
+          ? output.text.length
+          : output.text.length - partialMarkerLength(output.text, `\n${marker}`);
+      if (onOutput && output.started && length > reported[stream]) {
+        onOutput(stream, output.text.slice(reported[stream], length));
+        reported[stream] = length;
+      }
+    };
+
+    await new Promise<void>((resolve) => {
+      const check = () => {
+        stdout = frame(this.stdout, marker, new RegExp(`\\n${marker} (\\d+) ([^\\n]*)\\n`));
+        stderr = frame(this.stderr, marker, new RegExp(`\\n${marker}\\n`));
+        const done = !!(stdout.end && stderr.end) || this.exited || timedOut || aborted;
+        report("stdout", stdout, done);
+        report("stderr", stderr, done);
+        if (done) {
+          clearTimeout(timer);
+          abortSignal?.removeEventListener("abort", onAbort);
+          this.onChange = undefined;
+          resolve();
+        }
+      };
+      const onAbort = () => {
+        aborted = true;
+        check();
+      };
+      const timer = setTimeout(() => {
+        timedOut = true;
+        check();
+      }, timeoutMs);
+
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+      this.onChange = check;
+      check();
+    });
+
+    // Output after the end markers (e.g. from a job left running) is not
+    // part of any command; start the next one with empty buffers
+    this.stdout = "";
+    this.stderr = "";
+
+    if (!stdout.end || !stderr.end) {
+      // A shell stuck in a command or already gone can't be reused
+      const exitCode = timedOut || aborted ? null : this.exitCode;
+      this.close();
+      return { stdout: stdout.text, stderr: stderr.text, exitCode, timedOut, restarted: true };
+    }
+
+    return {
+      stdout: stdout.text,
+      stderr: stderr.text,
+      exitCode: Number(stdout.end[1]),
+      timedOut: false,
+      cwd: stdout.end[2],
+      restarted: false,
+    };
+  }
+
+  private start(): void {
+    this.stdout = "";
+    this.stderr = "";
+    this.exitCode = null;
+    this.exited = false;
+
+    const child = spawn(this.spec.file, this.spec.args, {
+      cwd: this.cwd,
+      env: this.spec.env,
+      stdio: ["pipe", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+
+    const onExit = (code: number | null) => {
+      if (this.child !== child) return;
+      this.exited = true;
+      this.exitCode = code ?? 1;
+      this.onChange?.();
+    };
+
+    child.stdout?.on("data", (data) => {
+      if (this.child !== child) return;
+      this.stdout += data.toString();
+      this.onChange?.();
+    });
+    child.stderr?.on("data", (data) => {
+      if (this.child !== child) return;
+      this.stderr += data.toString();
+      this.onChange?.();
+    });
+    child.stdin?.on("error", () => {});
+    child.on("close", onExit);
+    child.on("error", (error) => {
+      if (this.child !== child) return;
+      this.stderr += error.message;
+      onExit(1);
+    });
+
+    this.child = child;
+  }
+}
+
+interface FramedOutput {
+  text: string;
+  // The start marker has been written
+  started: boolean;
+  // The end marker, once it has been written
+  end?: RegExpExecArray;
+}
+
+/**
+ * Cut a command's output out of a stream: everything after its start
+ * marker line, up to its end marker
+ */
+function frame(stream: string, marker: string, endPattern: RegExp): FramedOutput {
+  const start = stream.indexOf(`${marker}\n`);
+  if (start === -1) {
+    // The shell never got to the command (e.g. it failed to start)
+    return { text: stream, started: false };
+  }
+
+  const body = stream.slice(start + marker.length + 1);
+  const end = endPattern.exec(body);
+  return end
+    ? { text: body.slice(0, end.index), started: true, end }
+    : { text: body, started: true };
+}
+
+/**
+ * Length of the longest end of text that is the start of the marker
+ */
+function partialMarkerLength(text: string, marker: string): number {
+  for (let length = Math.min(text.length, marker.length); length > 0; length--) {
+    if (text.endsWith(marker.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Stop every shell when the agent process exits
+ */
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.on("exit", closeAllShellSessions);
+}
@@ -7,6 +7,8 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import type { Tool, ToolContext, ToolExecutionResult } from "../types.js";
+import { createUnifiedDiff } from "../utils/diff.js";
+import { resolveToolPath } from "./paths.js";
 
 export const writeTool: Tool = {
   name: "write",
@@ -25,6 +27,24 @@ export const writeTool: Tool = {
     },
     required: ["file_path", "content"],
   },
+  editsFiles: true,
+
+  async preview(args: Record<string, unknown>, ctx: ToolContext): Promise<string> {
+    const filePath = args.file_path as string;
+    const content = args.content as string;
+    const resolved = await resolveToolPath(ctx, filePath, "write");
+    if ("error" in resolved) {
+      return resolved.error;
+    }
+
+    let existing = "";
+    try {
+      existing = await fs.readFile(resolved.path, "utf-8");
+    } catch {
+      // New file: diff against empty content
+    }
+    return createUnifiedDiff(existing, content, filePath) || `No changes to ${filePath}`;
+  },
 
   async execute(
     args: Record<string, unknown>,
@@ -34,9 +54,11 @@ export const writeTool: Tool = {
     const content = args.content as string;
 
     // Resolve path relative to workspace
-    const resolvedPath = path.isAbsolute(filePath)
-      ? filePath
-      : path.join(ctx.workspaceDir, filePath);
+    const resolved = await resolveToolPath(ctx, filePath, "write");
+    if ("error" in resolved) {
+      return { content: resolved.error, isError: true };
+    }
+    const resolvedPath = resolved.path;
 
     try {
       // Ensure directory exists
@@ -2,8 +2,14 @@
  * Core types for the minimal agent daemon
  */
 
-// Supported providers (priority order: anthropic > openai > bedrock)
-export type Provider = "anthropic" | "openai" | "bedrock";
+import type { AuthProfilePool } from "./auth/profiles.js";
+import type { ProcessRegistry } from "./tools/background.js";
+
+// Built-in providers (priority order: anthropic > openai > bedrock)
+export type BuiltinProvider = "anthropic" | "openai" | "bedrock";
+
+// Provider name - a built-in or any name added to the provider registry
+export type Provider = BuiltinProvider | (string & {});
 
 // Message roles in conversation
 export type MessageRole = "user" | "assistant" | "system";
@@ -11,9 +17,65 @@ export type MessageRole = "user" | "assistant" | "system";
 // A single message in the conversation
 export interface Message {
   role: MessageRole;
-  content: string;
-  toolCalls?: ToolCall[];
-  toolResults?: ToolResult[];
+  // Plain text, or typed blocks (images, documents, tool calls and results, thinking)
+  content: string | ContentBlock[];
+  // Set on the message that replaces compacted history
+  isSummary?: boolean;
+  // Set on the last message persisted from a cancelled run
+  cancelled?: boolean;
+}
+
+export interface TextBlock {
+  type: "text";
+  text: string;
+}
+
+export type ImageMediaType = "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+
+// Base64-encoded image
+export interface ImageBlock {
+  type: "image";
+  mediaType: ImageMediaType;
+  data: string;
+}
+
+// PDF (base64-encoded) or plain-text document
+export interface DocumentBlock {
+  type: "document";
+  mediaType: "application/pdf" | "text/plain";
+  data: string;
+  title?: string;
+}
+
+// Reasoning content, kept so multi-turn tool use stays valid on replay
+export type ThinkingBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+// Tool call in an assistant message
+export interface ToolUseBlock extends ToolCall {
+  type: "tool_use";
+}
+
+// Tool result in a user message
+export interface ToolResultBlock extends ToolResult {
+  type: "tool_result";
+}
+
+export type ContentBlock =
+  | TextBlock
+  | ImageBlock
+  | DocumentBlock
+  | ThinkingBlock
+  | ToolUseBlock
+  | ToolResultBlock;
+
+// Reasoning settings for a run
+export interface ThinkingConfig {
+  // Anthropic extended thinking budget (min 1024); derived from effort if omitted
+  budgetTokens?: number;
+  // OpenAI reasoning effort; derived from budgetTokens if omitted
+  effort?: "low" | "medium" | "high";
 }
 
 // Tool call made by the assistant
@@ -21,12 +83,15 @@ export interface ToolCall {
   id: string;
   name: string;
   arguments: Record<string, unknown>;
+  // Set when the provider could not parse the model's arguments as JSON;
+  // the call is answered with this error instead of being executed
+  argumentsError?: string;
 }
 
 // Result from executing a tool
 export interface ToolResult {
   toolCallId: string;
-  content: string;
+  content: string | Array<TextBlock | ImageBlock>;
   isError?: boolean;
 }
 
@@ -39,10 +104,126 @@ export interface Tool {
     properties: Record<string, ToolParameter>;
     required?: string[];
   };
+  // True if the tool never changes files or runs commands; read-only calls
+  // from the same assistant message may run concurrently
+  readOnly?: boolean;
+  // False for read-only tools whose calls must still run one at a time
+  // (e.g. process_poll, which takes the output it returns)
+  concurrencySafe?: boolean;
+  // True if the tool only changes files in the workspace; the "acceptEdits"
+  // permission mode runs these without asking
+  editsFiles?: boolean;
+  // Describe what a call would do (e.g. a diff or the command line) for
+  // approval prompts; defaults to the JSON arguments
+  preview?: (args: Record<string, unknown>, ctx: ToolContext) => Promise<string>;
   execute: (args: Record<string, unknown>, ctx: ToolContext) => Promise<ToolExecutionResult>;
 }
 
-export interface ToolParameter {
+// How calls to tools that are not read-only are approved
+// - default: ask before each call
+// - acceptEdits: file edits run without asking; other calls ask
+// - plan: read-only; such calls are denied
+// - bypass: everything runs without asking
+export type PermissionMode = "default" | "acceptEdits" | "plan" | "bypass";
+
+// A tool call waiting for approval
+export interface ApprovalRequest {
+  sessionId: string;
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  // What the call would do, e.g. a diff or the command line
+  preview: string;
+  // Aborted if the run is cancelled while waiting for an answer
+  abortSignal?: AbortSignal;
+}
+
+// Answer to an approval request; "allow_session" also approves later calls
+// to the same tool for the rest of the session
+export type ApprovalDecision =
+  | { behavior: "allow" }
+  | { behavior: "allow_session" }
+  | { behavior: "deny"; reason?: string };
+
+export type ApprovalHandler = (
+  request: ApprovalRequest
+) => ApprovalDecision | Promise<ApprovalDecision>;
+
+// A tool policy rule; the first rule that matches a call decides it
+export interface ToolPolicyRule {
+  // Label for audit logs (defaults to the rule's position)
+  name?: string;
+  // Tool names the rule applies to; globs allowed ("*" for every tool)
+  tool: string | string[];
+  action: "allow" | "deny";
+  // Globs for the call's file_path/path argument, relative to the workspace;
+  // patterns without a "/" match the file name anywhere
+  paths?: string[];
+  // Globs for the call's command argument, where "*" also matches spaces.
+  // Chained commands (&&, ;, |) match an allow rule only if every part
+  // does, and a deny rule if any part does
+  commands?: string[];
+  // Told to the model when the rule denies a call
+  reason?: string;
+}
+
+// Rules for a set of sessions in a tool policy
+export interface ToolPolicyRules {
+  // Decision when no rule matches (default: "allow")
+  default?: "allow" | "deny";
+  rules?: ToolPolicyRule[];
+}
+
+// Declarative limits on tool calls, e.g. from .mini-owl/policy.json
+export interface ToolPolicy extends ToolPolicyRules {
+  // Rules for sessions whose ID matches the key (a glob), checked before
+  // the shared rules; a session's default wins over the shared default
+  sessions?: Record<string, ToolPolicyRules>;
+  // JSONL file, relative to the workspace, that every decision is appended to
+  auditLog?: string;
+}
+
+// Outcome of checking a tool call against a tool policy
+export interface PolicyDecision {
+  action: "allow" | "deny";
+  // The rule that decided, e.g. "rules[2]", "sessions[ci-*].rules[0] (no-secrets)" or "default"
+  rule: string;
+  reason?: string;
+}
+
+// The file a tool call targets, for policy path rules; both paths are
+// relative to the workspace with "/" separators
+export interface PolicyTarget {
+  // As given in the call
+  requested: string;
+  // With symlinks resolved
+  resolved: string;
+}
+
+// Subset of JSON Schema used for tool parameters and structured output
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  // Other keywords are passed to the model but not validated
+  [keyword: string]: unknown;
+}
+
+export interface ToolParameter extends JsonSchema {
   type: string;
   description: string;
   enum?: string[];
@@ -51,11 +232,77 @@ export interface ToolParameter {
 
 export interface ToolContext {
   workspaceDir: string;
+  // The agent session the call belongs to
+  sessionId?: string;
+  // Directories besides the workspace that file tools may use
+  roots?: WorkspaceRoot[];
+  // How exec runs commands
+  exec?: ExecConfig;
+  // Background processes started by exec in this run; without it exec
+  // can't run commands in the background
+  processes?: ProcessRegistry;
+  // Reports output while the tool runs (e.g. a line of a command's output)
+  onProgress?: (chunk: string) => void;
+  // Set when a tool policy applies; true for (canonical) files a deny rule
+  // covers, which tools that search whole directories (grep) skip
+  isPathDenied?: (filePath: string) => boolean;
   abortSignal?: AbortSignal;
 }
 
+// Settings for running shell commands
+export interface ExecConfig {
+  // Registered backend name; "host" and "sandbox" are built in (default: "host")
+  backend?: string;
+  // Environment variables passed to commands; "*" globs allowed
+  // (default: a small safe set such as PATH, HOME and LANG)
+  envAllowlist?: string[];
+  // Variables set for every command, on top of the allowlisted ones
+  env?: Record<string, string>;
+  // Let sandboxed commands use the network (default: false)
+  network?: boolean;
+  // Run commands in one bash per session that keeps cwd and exported
+  // variables between calls (default: false; not on Windows)
+  persistentShell?: boolean;
+}
+
+// A shell command about to be run by an exec backend
+export interface ExecRequest {
+  command: string;
+  cwd: string;
+  // The workspace and any read-write roots
+  writableDirs: string[];
+  // Already filtered by the allowlist
+  env: Record<string, string>;
+  network: boolean;
+}
+
+// The process an exec backend wants spawned for a command
+export interface ExecSpawnSpec {
+  file: string;
+  args: string[];
+  env: Record<string, string>;
+  // Shown in the tool output, e.g. "sandbox (bwrap, no network)"
+  label: string;
+}
+
+// Decides where and how shell commands run (host, sandbox, container, ...)
+export interface ExecBackend {
+  name: string;
+  // @throws If the backend can't run here (e.g. a missing sandbox tool)
+  prepare: (request: ExecRequest) => ExecSpawnSpec | Promise<ExecSpawnSpec>;
+}
+
+// An extra directory granted to file tools
+export interface WorkspaceRoot {
+  // Absolute, or relative to the workspace
+  path: string;
+  // "read" allows reading and listing only (default: "read")
+  access?: "read" | "readwrite";
+}
+
 export interface ToolExecutionResult {
-  content: string;
+  // Text, or text and images (e.g. a screenshot read from disk)
+  content: ToolResult["content"];
   isError?: boolean;
 }
 
@@ -77,44 +324,295 @@ export interface BedrockConfig {
   profile?: string;
 }
 
+// A named API key (or Bedrock credentials) for one provider
+export interface AuthProfile {
+  name: string;
+  provider: Provider;
+  apiKey?: string;
+  // Read the key from this environment variable instead of storing it
+  apiKeyEnv?: string;
+  bedrockConfig?: BedrockConfig;
+}
+
+// Contents of .mini-owl/auth.json
+export interface AuthProfilesConfig {
+  strategy?: "round-robin" | "least-recently-throttled";
+  rateLimitCooldownMs?: number;
+  authCooldownMs?: number;
+  profiles: AuthProfile[];
+}
+
+// Health of one auth profile, as reported by getStats()
+export interface AuthProfileHealth {
+  name: string;
+  provider: Provider;
+  status: "ready" | "cooldown";
+  cooldownUntil?: Date;
+  lastUsedAt?: Date;
+  lastFailure?: { kind: AgentErrorKind; at: Date };
+  successes: number;
+  failures: number;
+}
+
+// A provider + model pair, used for fallback chains
+export interface ModelRef {
+  provider: Provider;
+  model?: string;
+  // API key for this entry (defaults to the run's key when the provider matches)
+  apiKey?: string;
+}
+
 // Agent run parameters
 export interface AgentRunParams {
   sessionId: string;
   prompt: string;
+  // Images sent along with the prompt
+  attachments?: ImageBlock[];
+  // Force the final answer into this shape; the parsed value is returned as output
+  responseSchema?: JsonSchema;
   sessionFile?: string;
   workspaceDir: string;
   model?: string;
   provider?: Provider;
   apiKey?: string;
   bedrockConfig?: BedrockConfig;
+  authProfiles?: AuthProfilePool;
+  providers?: ModelProvider[];
+  fallbacks?: ModelRef[];
+  // Estimated tokens of context before older history is summarized
+  contextTokenBudget?: number;
+  // Max read-only tool calls run at once (default: 4)
+  toolConcurrency?: number;
+  // Anthropic/Bedrock prompt caching (default: true)
+  promptCaching?: boolean;
+  thinking?: ThinkingConfig;
+  budget?: RunBudget;
+  // Per-model price overrides, merged over the built-in pricing table
+  pricing?: Record<string, ModelPricing>;
   tools?: Tool[];
+  // Approval of tool calls that are not read-only (default: "default")
+  permissionMode?: PermissionMode;
+  // Asked before such calls; without it, calls that need approval run
+  // (plan mode still denies them)
+  onApprovalRequest?: ApprovalHandler;
+  // Tools approved for the rest of the session; "allow_session" adds to it
+  sessionApprovals?: Set<string>;
+  // Checked before permissions; denied calls are never offered for approval
+  policy?: ToolPolicy;
+  // Directories besides the workspace that file tools may use
+  roots?: WorkspaceRoot[];
+  // How exec runs commands (backend, environment, network)
+  exec?: ExecConfig;
+  // Receives every event of the run; the callbacks below are adapters over it
+  onEvent?: AgentEventHandler;
   onPartialReply?: (text: string) => void;
+  onThinking?: (text: string) => void;
   onToolExecution?: (toolName: string, args: Record<string, unknown>) => void;
+  onToolProgress?: (toolName: string, chunk: string) => void;
   onToolResult?: (toolName: string, result: string) => void;
+  onFallback?: (info: FallbackInfo) => void;
+  retry?: Partial<RetryPolicy>;
+  onRetry?: (info: RetryInfo) => void;
   abortSignal?: AbortSignal;
 }
 
+// Backoff settings for retrying throttled or overloaded model calls
+export interface RetryPolicy {
+  // Retries per model call (0 disables retrying)
+  maxRetries: number;
+  baseDelayMs: number;
+  // Upper bound for a single wait; a longer Retry-After gives up instead
+  maxDelayMs: number;
+}
+
+// Emitted before waiting to retry a failed model call
+export interface RetryInfo {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  provider: Provider;
+  model: string;
+  error: { kind: AgentErrorKind; message: string };
+}
+
+// Emitted when a run moves on to the next model in its fallback chain
+export interface FallbackInfo {
+  from: { provider: Provider; model: string };
+  to: { provider: Provider; model: string };
+  error: { kind: AgentErrorKind; message: string };
+}
+
+// Token counts reported by a provider
+export interface TokenUsage {
+  // Uncached input tokens
+  inputTokens: number;
+  outputTokens: number;
+  // Prompt-cache activity, counted separately from inputTokens
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+// Model price in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  // Defaults to the input price
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+// Accumulated token usage and estimated cost
+export interface SpendSummary {
+  runs: number;
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+// Limits for a single run; a run that reaches one stops and saves its progress
+export interface RunBudget {
+  // Input, output and cache tokens across all model calls
+  maxTokens?: number;
+  // Estimated cost in USD (calls to models without a known price count as free)
+  maxCostUsd?: number;
+  // Wall-clock time for the whole run
+  maxDurationMs?: number;
+  // Model calls in the tool loop (default: 25)
+  maxIterations?: number;
+}
+
+// Error categories surfaced in AgentRunResult
+export type AgentErrorKind =
+  | "context_overflow"
+  | "rate_limit"
+  | "overloaded"
+  | "auth_error"
+  | "model_not_found"
+  | "cancelled"
+  | "budget_exceeded"
+  | "iteration_limit"
+  | "invalid_output"
+  | "unknown";
+
 // Agent run result
 export interface AgentRunResult {
   response: string;
   messages: Message[];
-  usage?: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+  usage?: TokenUsage;
+  // Estimated cost in USD (undefined if none of the models used has a known price)
+  costUsd?: number;
+  // Final answer parsed against AgentRunParams.responseSchema
+  output?: unknown;
+  // Provider and model that produced the response
+  provider?: Provider;
+  model?: string;
   error?: {
-    kind: string;
+    kind: AgentErrorKind;
     message: string;
   };
 }
 
+// Options used to construct a provider client
+export interface ProviderClientOptions {
+  apiKey?: string;
+  bedrockConfig?: BedrockConfig;
+}
+
+// Parameters for a single streamed model call
+export interface ProviderTurnParams<TClient = unknown> {
+  client: TClient;
+  model: string;
+  systemPrompt: string;
+  messages: Message[];
+  tools: Tool[];
+  maxTokens: number;
+  onText?: (text: string) => void;
+  thinking?: ThinkingConfig;
+  onThinking?: (text: string) => void;
+  // Aborts the in-flight request and stream
+  abortSignal?: AbortSignal;
+  // Place prompt-cache breakpoints where the provider supports them (default: true)
+  promptCaching?: boolean;
+  // Name of a tool the model must call
+  toolChoice?: string;
+}
+
+// Outcome of a single streamed model call
+export interface ProviderTurnResult {
+  text: string;
+  toolCalls: ToolCall[];
+  thinking?: ThinkingBlock[];
+  usage: TokenUsage;
+  stopReason?: string;
+}
+
+/**
+ * LLM backend contract
+ *
+ * The runner owns the tool loop and session handling; a provider only
+ * knows how to talk to its API for one model call at a time.
+ */
+export interface ModelProvider<TClient = unknown, TMessage = unknown, TTool = unknown> {
+  name: string;
+  defaultModel: string;
+  resolveModel(model: string | undefined): string;
+  createClient(options: ProviderClientOptions): TClient;
+  convertMessages(messages: Message[], systemPrompt: string): TMessage[];
+  convertTools(tools: Tool[]): TTool[];
+  streamTurn(params: ProviderTurnParams<TClient>): Promise<ProviderTurnResult>;
+  classifyError(error: unknown): AgentErrorKind | undefined;
+  // Server-requested delay before retrying, in milliseconds
+  getRetryAfterMs?(error: unknown): number | undefined;
+}
+
 // Event types emitted during agent execution
 export type AgentEvent =
-  | { type: "message_start" }
+  // A model call is starting (again after a retry)
+  | { type: "message_start"; provider: Provider; model: string }
   | { type: "message_delta"; text: string }
-  | { type: "message_end"; text: string }
-  | { type: "tool_start"; toolName: string; args: Record<string, unknown> }
-  | { type: "tool_end"; toolName: string; result: string; isError?: boolean }
+  | { type: "thinking_delta"; text: string }
+  | {
+      type: "message_end";
+      text: string;
+      toolCalls: ToolCall[];
+      stopReason?: string;
+      usage: TokenUsage;
+    }
+  | {
+      type: "tool_start";
+      toolCallId: string;
+      toolName: string;
+      args: Record<string, unknown>;
+    }
+  // Live output from a running tool (e.g. exec's stdout and stderr lines);
+  // shown to the user, not sent to the model
+  | {
+      type: "tool_progress";
+      toolCallId: string;
+      toolName: string;
+      chunk: string;
+    }
+  // A tool call was checked against the tool policy (only when one is set)
+  | {
+      type: "policy_decision";
+      toolCallId: string;
+      toolName: string;
+      args: Record<string, unknown>;
+      decision: PolicyDecision;
+    }
+  | {
+      type: "tool_end";
+      toolCallId: string;
+      toolName: string;
+      result: string;
+      isError?: boolean;
+      durationMs: number;
+    }
+  // Token usage for the whole run so far
+  | { type: "usage"; usage: TokenUsage }
+  | ({ type: "retry" } & RetryInfo)
+  | ({ type: "fallback" } & FallbackInfo)
+  // Always the last event of a run that did not throw
+  | { type: "result"; result: AgentRunResult }
   | { type: "error"; error: Error };
 
 export interface AgentEventHandler {
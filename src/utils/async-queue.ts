@@ -0,0 +1,45 @@
+/**
+ * Async queue - Push-based producer, async-iterator consumer
+ */
+
+/**
+ * Unbounded queue that can be consumed with `for await`
+ *
+ * Items pushed before the consumer starts are buffered. Iteration ends
+ * once the queue is closed and drained.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private closed = false;
+  private wake?: () => void;
+
+  push(item: T): void {
+    if (this.closed) return;
+    this.items.push(item);
+    this.notify();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.notify();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.items.length > 0) {
+        yield this.items.shift() as T;
+        continue;
+      }
+      if (this.closed) return;
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+    }
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Diff - Line-based unified diffs for previews
+ *
+ * Key concepts:
+ * - Lines shared at the start and end are matched first, so a local edit
+ *   to a large file stays cheap
+ * - The changed middle is aligned with a longest-common-subsequence table,
+ *   or shown as a plain replacement when it is too large to align
+ */
+
+const CONTEXT_LINES = 3;
+
+// Largest middle section (old lines x new lines) aligned line by line
+const MAX_ALIGN_CELLS = 4_000_000;
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+/**
+ * Align two line lists into kept, removed and added lines
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  const middle: DiffLine[] = [];
+
+  if (a.length * b.length > MAX_ALIGN_CELLS) {
+    middle.push(...a.map((text) => ({ op: "-" as const, text })));
+    middle.push(...b.map((text) => ({ op: "+" as const, text })));
+  } else {
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () =>
+      new Uint32Array(b.length + 1)
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ op: " ", text: a[i++] });
+        j++;
+      } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        middle.push({ op: "-", text: a[i++] });
+      } else {
+        middle.push({ op: "+", text: b[j++] });
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, start).map((text) => ({ op: " " as const, text })),
+    ...middle,
+    ...oldLines.slice(oldEnd).map((text) => ({ op: " " as const, text })),
+  ];
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @returns The diff, or an empty string if the texts are identical
+ */
+export function createUnifiedDiff(oldText: string, newText: string, fileName: string): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const lines = diffLines(
+    oldText === "" ? [] : oldText.split("\n"),
+    newText === "" ? [] : newText.split("\n")
+  );
+  const output = [`--- ${fileName}`, `+++ ${fileName}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, i) => i >= index && line.op !== " ");
+    if (firstChange === -1) break;
+
+    // Extend the hunk until a run of unchanged lines is long enough to split on
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    let end = firstChange;
+    let unchanged = 0;
+    while (end < lines.length && unchanged <= CONTEXT_LINES * 2) {
+      unchanged = lines[end].op === " " ? unchanged + 1 : 0;
+      end++;
+    }
+    end -= Math.max(0, unchanged - CONTEXT_LINES);
+
+    // Line numbers of the hunk's first line in each version
+    let oldLine = 1;
+    let newLine = 1;
+    for (const line of lines.slice(0, start)) {
+      if (line.op !== "+") oldLine++;
+      if (line.op !== "-") newLine++;
+    }
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.op !== "+").length;
+    const newCount = hunk.filter((line) => line.op !== "-").length;
+
+    // An empty side is numbered by the line before it, as in diff -u
+    output.push(
+      `@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`
+    );
+    output.push(...hunk.map((line) => `${line.op}${line.text}`));
+    index = end;
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,87 @@
+/**
+ * Glob - Match paths against glob patterns
+ *
+ * Key concepts:
+ * - `*` and `?` never cross a `/`; `**` matches any number of segments
+ * - `{ts,tsx}` alternatives and `[a-z]` character classes
+ * - Patterns without a `/` match the last path segment anywhere in the
+ *   tree (like .gitignore), so `*.pem` matches `certs/server.pem`
+ */
+
+/**
+ * Convert a glob pattern to a regular expression source (without anchors)
+ *
+ * @param crossSegments - Let `*` and `?` match `/` too (for non-path
+ *   strings such as shell commands)
+ */
+export function globToRegExpSource(pattern: string, crossSegments = false): string {
+  const any = crossSegments ? "." : "[^/]";
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more whole segments; a bare "**" matches anything
+        const slash = pattern[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        source += `${any}*`;
+      }
+    } else if (char === "?") {
+      source += any;
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += `[${body.startsWith("!") ? `^${body.slice(1)}` : body}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source + ")".repeat(braceDepth);
+}
+
+/**
+ * Compile a path glob to a regular expression
+ *
+ * Patterns without a `/` match the last segment of the path; a leading
+ * `/` anchors the pattern to the root the path is relative to.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const trimmed = pattern.replace(/\/+$/, "");
+  if (!trimmed.includes("/")) {
+    return new RegExp(`(?:^|/)${globToRegExpSource(trimmed)}$`);
+  }
+  return new RegExp(`^${globToRegExpSource(trimmed.replace(/^\//, ""))}$`);
+}
+
+/**
+ * Check whether a relative path (with `/` separators) matches any of the patterns
+ */
+export function matchesGlob(filePath: string, patterns: string | string[]): boolean {
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  return list.some((pattern) => globToRegExp(pattern).test(filePath));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
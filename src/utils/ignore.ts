@@ -0,0 +1,217 @@
+/**
+ * Ignore - gitignore-aware directory walking
+ *
+ * Inspired by OpenClaw's workspace file search (and ripgrep's ignore rules)
+ *
+ * Key concepts:
+ * - Rules come from `.gitignore` and `.ignore` in every directory, plus
+ *   `.mini-owl/ignore` at the workspace root; later and deeper rules win,
+ *   and `!pattern` re-includes
+ * - Rules in a nested file apply relative to its directory, so walking a
+ *   subdirectory still honors the ignore files above it
+ * - Hidden entries (dotfiles) and common build output (node_modules, dist,
+ *   build, .git) are skipped by default; callers can include them
+ * - Ignored directories are never descended into
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { globToRegExp, matchesGlob } from "./glob.js";
+
+// Ignore files read in each directory, lowest precedence first
+const IGNORE_FILES = [".gitignore", ".ignore"];
+
+// Workspace-level ignore file, applied after the root's own ignore files
+const WORKSPACE_IGNORE_FILE = path.join(".mini-owl", "ignore");
+
+// Skipped unless ignored files are included; ignore files can re-include them
+const DEFAULT_IGNORES = [".git/", "node_modules/", "__pycache__/", "dist/", "build/"];
+
+export interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  // Directory the rule was read from, relative to the walk's root ("" for the root)
+  base: string;
+}
+
+export interface WalkOptions {
+  // Paths inside the workspace also honor ignore files between it and the walked directory
+  workspaceDir?: string;
+  // Only yield files matching these globs (relative to the walked directory)
+  glob?: string | string[];
+  // Include dotfiles and dot-directories
+  includeHidden?: boolean;
+  // Include files matched by ignore files and the default ignores
+  includeIgnored?: boolean;
+  maxDepth?: number;
+}
+
+export interface WalkEntry {
+  path: string;
+  // Relative to the walked directory, with "/" separators
+  relativePath: string;
+}
+
+/**
+ * Parse the contents of a gitignore-style file
+ *
+ * @param base - Directory the file is in, relative to the walk's root
+ */
+export function parseIgnoreFile(content: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are dropped unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+
+    const dirOnly = line.endsWith("/");
+    line = line.replace(/\/+$/, "");
+    if (!line) continue;
+
+    rules.push({ regex: globToRegExp(line), negate, dirOnly, base });
+  }
+
+  return rules;
+}
+
+/**
+ * Check a path against ignore rules; the last matching rule decides
+ *
+ * @param relativePath - Relative to the walk's root, with "/" separators
+ */
+export function isIgnored(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+
+    let subPath = relativePath;
+    if (rule.base) {
+      if (!relativePath.startsWith(`${rule.base}/`)) continue;
+      subPath = relativePath.slice(rule.base.length + 1);
+    }
+
+    if (rule.regex.test(subPath)) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Walk a directory, yielding files that are not hidden or ignored
+ *
+ * Symlinks are not followed.
+ */
+export async function* walkFiles(dir: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+  const { maxDepth = 10, includeHidden = false, includeIgnored = false } = options;
+  const globs = options.glob;
+
+  // Rules are matched against paths relative to the ignore root: the
+  // workspace if the walk starts inside it, otherwise the walked directory
+  const root = await findIgnoreRoot(dir, options.workspaceDir);
+  const prefix = toSlashes(path.relative(root, dir));
+  let rules: IgnoreRule[] = [];
+  if (!includeIgnored) {
+    rules = parseIgnoreFile(DEFAULT_IGNORES.join("\n"));
+    let current = root;
+    for (const segment of ["", ...(prefix ? prefix.split("/") : [])]) {
+      current = path.join(current, segment);
+      rules.push(...(await loadIgnoreRules(current, toSlashes(path.relative(root, current)))));
+      if (current === root) {
+        rules.push(...(await readRules(path.join(root, WORKSPACE_IGNORE_FILE), "")));
+      }
+    }
+  }
+
+  async function* walk(
+    currentDir: string,
+    depth: number,
+    inherited: IgnoreRule[]
+  ): AsyncGenerator<WalkEntry> {
+    if (depth > maxDepth) return;
+
+    let entries;
+    try {
+      entries = await fs.readdir(currentDir, { withFileTypes: true });
+    } catch {
+      // Skip directories we can't read
+      return;
+    }
+
+    // The walked directory's own ignore files were loaded up front
+    let rules = inherited;
+    if (!includeIgnored && currentDir !== dir) {
+      const base = toSlashes(path.relative(root, currentDir));
+      rules = [...inherited, ...(await loadIgnoreRules(currentDir, base))];
+    }
+
+    for (const entry of entries) {
+      if (!includeHidden && entry.name.startsWith(".")) continue;
+
+      const fullPath = path.join(currentDir, entry.name);
+      const isDirectory = entry.isDirectory();
+      if (!isDirectory && !entry.isFile()) continue;
+      const rootPath = toSlashes(path.relative(root, fullPath));
+      if (!includeIgnored && isIgnored(rootPath, isDirectory, rules)) continue;
+
+      if (isDirectory) {
+        yield* walk(fullPath, depth + 1, rules);
+      } else {
+        const relativePath = toSlashes(path.relative(dir, fullPath));
+        if (!globs || matchesGlob(relativePath, globs)) {
+          yield { path: fullPath, relativePath };
+        }
+      }
+    }
+  }
+
+  yield* walk(dir, 0, rules);
+}
+
+/**
+ * Load the rules from a directory's .gitignore and .ignore files
+ *
+ * @param base - The directory relative to the walk's root
+ */
+async function loadIgnoreRules(dir: string, base: string): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  for (const name of IGNORE_FILES) {
+    rules.push(...(await readRules(path.join(dir, name), base)));
+  }
+  return rules;
+}
+
+async function readRules(file: string, base: string): Promise<IgnoreRule[]> {
+  try {
+    return parseIgnoreFile(await fs.readFile(file, "utf-8"), base);
+  } catch {
+    // Missing or unreadable ignore files add no rules
+    return [];
+  }
+}
+
+/**
+ * Pick the directory ignore rules are relative to
+ */
+async function findIgnoreRoot(dir: string, workspaceDir?: string): Promise<string> {
+  if (!workspaceDir) {
+    return dir;
+  }
+  const workspace = await fs.realpath(workspaceDir).catch(() => path.resolve(workspaceDir));
+  const relative = path.relative(workspace, dir);
+  const inside =
+    relative === "" ||
+    (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+  return inside ? workspace : dir;
+}
+
+function toSlashes(p: string): string {
+  return p.split(path.sep).join("/");
+}
@@ -0,0 +1,71 @@
+/**
+ * Image helpers - Detect and load images for the model
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ImageBlock, ImageMediaType } from "../types.js";
+
+// Largest image the providers accept inline (Anthropic's per-image limit)
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".gif", ".webp"];
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Detect an image format from its leading bytes
+ *
+ * @returns The media type, or undefined if the data is not a supported image
+ */
+export function detectImageType(data: Buffer): ImageMediaType | undefined {
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return "image/png";
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.length >= 6 && /^GIF8[79]a$/.test(data.toString("latin1", 0, 6))) {
+    return "image/gif";
+  }
+  if (
+    data.length >= 12 &&
+    data.toString("latin1", 0, 4) === "RIFF" &&
+    data.toString("latin1", 8, 12) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a path has an image file extension
+ */
+export function hasImageExtension(filePath: string): boolean {
+  return IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Build an image block from file contents
+ *
+ * @throws If the data is not a supported image or is too large
+ */
+export function toImageBlock(data: Buffer, name: string): ImageBlock {
+  const mediaType = detectImageType(data);
+  if (!mediaType) {
+    throw new Error(`${name} is not a PNG, JPEG, GIF or WebP image`);
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(
+      `${name} is too large (${(data.length / 1024 / 1024).toFixed(1)} MB, max ${MAX_IMAGE_BYTES / 1024 / 1024} MB)`
+    );
+  }
+  return { type: "image", mediaType, data: data.toString("base64") };
+}
+
+/**
+ * Load an image file as an attachment for a prompt
+ */
+export async function loadImage(filePath: string): Promise<ImageBlock> {
+  return toImageBlock(await fs.readFile(filePath), filePath);
+}
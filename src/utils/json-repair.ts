@@ -0,0 +1,118 @@
+/**
+ * JSON Repair - Recover JSON that models emit slightly malformed
+ *
+ * Key concepts:
+ * - Models make small syntax slips in tool arguments (trailing commas,
+ *   raw newlines inside strings, single quotes, code fences)
+ * - Repair only fixes syntax that loses nothing; it never guesses at
+ *   missing values, so output cut off mid-string or mid-object is left
+ *   unrepaired and the model is asked to send it again
+ * - Valid JSON is always parsed as-is
+ */
+
+/**
+ * Fix common syntax slips in JSON text
+ *
+ * Strips code fences, drops trailing commas, turns single-quoted strings
+ * into double-quoted ones and escapes control characters inside strings.
+ *
+ * @returns The fixed text, or undefined if the value is incomplete (an
+ *   open string, array or object) or has other text around it, and so
+ *   can't be fixed without guessing
+ */
+export function repairJson(text: string): string | undefined {
+  let source = text.trim();
+  const fenced = source.match(/^```(?:json)?\s*([\s\S]*?)\s*(?:```)?$/);
+  if (fenced) {
+    source = fenced[1];
+  }
+  // Text around the value could be part of it (e.g. a second object), so
+  // nothing but whitespace may surround it
+  if (!/^[[{]/.test(source)) {
+    return undefined;
+  }
+
+  let output = "";
+  const closers: string[] = [];
+  // The open string's quote character, if inside one
+  let quote: string | undefined;
+  let escaped = false;
+  let index = 0;
+
+  for (const char of source) {
+    index += char.length;
+    if (quote) {
+      if (escaped) {
+        escaped = false;
+        // \' is not a JSON escape; a plain ' needs none
+        if (char === "'") {
+          output = output.slice(0, -1);
+        }
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === quote) {
+        quote = undefined;
+        output += '"';
+        continue;
+      } else if (char === '"') {
+        // A double quote inside a single-quoted string
+        output += '\\"';
+        continue;
+      } else if (char < " ") {
+        output += JSON.stringify(char).slice(1, -1);
+        continue;
+      }
+      output += char;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      output += '"';
+      continue;
+    } else if (char === "{") {
+      closers.push("}");
+    } else if (char === "[") {
+      closers.push("]");
+    } else if (char === "}" || char === "]") {
+      if (closers[closers.length - 1] !== char) {
+        // A mismatched closer means the structure is broken, not just untidy
+        return undefined;
+      }
+      closers.pop();
+      output = output.replace(/,\s*$/, "");
+      output += char;
+      if (closers.length === 0) {
+        return source.slice(index).trim() ? undefined : output;
+      }
+      continue;
+    }
+    output += char;
+  }
+
+  if (quote || closers.length > 0) {
+    return undefined;
+  }
+  return output;
+}
+
+/**
+ * Parse JSON text, repairing it first if it is malformed
+ *
+ * @throws The original parse error if the text cannot be repaired
+ */
+export function parseJsonLenient(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const repaired = repairJson(text);
+    if (repaired === undefined) {
+      throw error;
+    }
+    try {
+      return JSON.parse(repaired);
+    } catch {
+      throw error;
+    }
+  }
+}
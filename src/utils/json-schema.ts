@@ -0,0 +1,295 @@
+/**
+ * JSON Schema - Minimal validator for tool parameters and structured output
+ *
+ * Supports the keywords models are usually given: type, enum, const,
+ * properties, required, additionalProperties, items, anyOf, and the
+ * basic numeric, string and array bounds. Unknown keywords are ignored.
+ *
+ * Coercion fixes the near misses models commonly send before validating:
+ * numbers and booleans as strings, arrays and objects as JSON strings,
+ * enum values in the wrong case, null for optional properties, and
+ * missing properties that have a default.
+ */
+
+import type { JsonSchema } from "../types.js";
+
+// Compiled `pattern` keywords; null for patterns that don't compile
+const patterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile a schema's `pattern` keyword, caching the result
+ */
+function compilePattern(pattern: string): RegExp | null {
+  let regex = patterns.get(pattern);
+  if (regex === undefined) {
+    try {
+      regex = new RegExp(pattern, "u");
+    } catch {
+      regex = null;
+    }
+    patterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Check a schema itself for problems that would otherwise only show up
+ * while validating a value, such as a `pattern` that doesn't compile
+ *
+ * @returns One message per problem found (empty if the schema is usable)
+ */
+export function checkJsonSchema(schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.pattern !== undefined && !compilePattern(schema.pattern)) {
+    errors.push(`${path}: pattern /${schema.pattern}/ is not a valid regular expression`);
+  }
+  for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+    errors.push(...checkJsonSchema(propertySchema, `${path}.${key}`));
+  }
+  if (schema.items) {
+    errors.push(...checkJsonSchema(schema.items, `${path}[]`));
+  }
+  if (typeof schema.additionalProperties === "object") {
+    errors.push(...checkJsonSchema(schema.additionalProperties, `${path}.*`));
+  }
+  schema.anyOf?.forEach((option, i) => {
+    errors.push(...checkJsonSchema(option, `${path}.anyOf[${i}]`));
+  });
+
+  return errors;
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+/**
+ * Check a value against a schema type name ("integer" also counts as "number")
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Get the type names a schema allows (empty if untyped)
+ */
+function schemaTypes(schema: JsonSchema): string[] {
+  if (schema.type === undefined) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/**
+ * Check whether a schema's type allows a value (true if untyped)
+ */
+function matchesAnyType(value: unknown, schema: JsonSchema): boolean {
+  const types = schemaTypes(schema);
+  return types.length === 0 || types.some((type) => matchesType(value, type));
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @param path - Location of the value, used in error messages
+ * @returns One message per problem found (empty if the value is valid)
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  const errors: string[] = [];
+
+  if (!matchesAnyType(value, schema)) {
+    return [`${path}: expected ${schemaTypes(schema).join(" or ")}, got ${typeOf(value)}`];
+  }
+
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    const options = schema.enum.map((option) => JSON.stringify(option)).join(", ");
+    errors.push(`${path}: must be one of ${options}`);
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some((option) => validateJsonSchema(value, option, path).length === 0)
+  ) {
+    errors.push(`${path}: does not match any of the allowed schemas`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined) {
+      const regex = compilePattern(schema.pattern);
+      if (!regex) {
+        errors.push(`${path}: schema pattern /${schema.pattern}/ is not a valid regular expression`);
+      } else if (!regex.test(value)) {
+        errors.push(`${path}: must match /${schema.pattern}/`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not an allowed property`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Coerce a value towards a schema without validating it
+ *
+ * Values that cannot be coerced are returned unchanged, so validation
+ * afterwards reports them.
+ */
+export function coerceJsonSchema(value: unknown, schema: JsonSchema): unknown {
+  if (value === undefined) {
+    return schema.default === undefined ? undefined : structuredClone(schema.default);
+  }
+
+  let result = value;
+  if (!matchesAnyType(value, schema)) {
+    for (const type of schemaTypes(schema)) {
+      const coerced = coerceType(value, type);
+      if (coerced !== undefined) {
+        result = coerced;
+        break;
+      }
+    }
+  }
+
+  if (typeof result === "string" && schema.enum && !schema.enum.includes(result)) {
+    const lower = result.toLowerCase();
+    const match = schema.enum.find(
+      (option) => typeof option === "string" && option.toLowerCase() === lower
+    );
+    if (match !== undefined) {
+      result = match;
+    }
+  }
+
+  if (Array.isArray(result) && schema.items) {
+    const items = schema.items;
+    result = result.map((item) => coerceJsonSchema(item, items));
+  }
+
+  if (typeOf(result) === "object" && schema.properties) {
+    const object: Record<string, unknown> = { ...(result as Record<string, unknown>) };
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      const isRequired = schema.required?.includes(key) ?? false;
+      // Models often send null for optional parameters they mean to leave out
+      if (object[key] === null && !isRequired && !matchesAnyType(null, propertySchema)) {
+        delete object[key];
+      }
+      const coerced = coerceJsonSchema(object[key], propertySchema);
+      if (coerced !== undefined) {
+        object[key] = coerced;
+      }
+    }
+    result = object;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a value to a schema type name
+ *
+ * @returns The converted value, or undefined if there is no sensible conversion
+ */
+function coerceType(value: unknown, type: string): unknown {
+  if (typeof value === "string") {
+    const text = value.trim();
+    switch (type) {
+      case "number":
+      case "integer": {
+        const number = text === "" ? NaN : Number(text);
+        return Number.isFinite(number) && matchesType(number, type) ? number : undefined;
+      }
+      case "boolean":
+        return text === "true" ? true : text === "false" ? false : undefined;
+      case "null":
+        return text === "null" ? null : undefined;
+      case "array":
+      case "object": {
+        try {
+          const parsed: unknown = JSON.parse(text);
+          return matchesType(parsed, type) ? parsed : undefined;
+        } catch {
+          return undefined;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+    return String(value);
+  }
+  if (type === "array" && value !== null && typeof value !== "object") {
+    return [value];
+  }
+  return undefined;
+}
+
+/**
+ * Structural equality for JSON values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}